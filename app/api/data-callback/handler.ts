@@ -0,0 +1,60 @@
+import type {
+  CallbackRequest,
+  CallbackResponse,
+  ErrorResponse,
+  SuccessResponse,
+} from '../../../lib/data-callback/types';
+import { applyPresetOverrides, getPresetErrors, toSuccessResponse } from '../../../lib/data-callback/presets';
+import { applyCallRewrite } from '../../../lib/data-callback/rewrite';
+import { evaluateRules } from '../../../lib/data-callback/rules';
+import { getActiveRules } from './rules';
+import { getSession } from './sessions';
+
+/**
+ * Produce the callback response for a wallet request. Shared by the live
+ * endpoint and inbox replays so both see the current presets and rules.
+ * `origin` is this app's origin, used to point rewritten calls at our paymaster.
+ */
+export function handleCallbackRequest(
+  requestData: CallbackRequest,
+  session: string | null,
+  origin: string,
+): CallbackResponse {
+  // A session token in the callback URL selects the preset configured in DataCallback
+  const preset = getSession(session);
+
+  if (preset) {
+    const presetErrors = getPresetErrors(preset);
+    if (presetErrors) {
+      const errorResponse: ErrorResponse = { errors: presetErrors };
+      return errorResponse;
+    }
+  }
+
+  // Extract requested info from the structure
+  const { requestedInfo } = requestData.capabilities.dataCallback;
+
+  if (!requestedInfo) {
+    // Return success with original data if no requestedInfo
+    const response: SuccessResponse = toSuccessResponse(requestData);
+    return preset ? applyPresetOverrides(preset, response) : response;
+  }
+
+  // Validate against the active rule set (editable from the Callback Rules panel)
+  const errors = evaluateRules(getActiveRules(), requestedInfo);
+
+  // Return errors if any found
+  if (Object.keys(errors).length > 0) {
+    const errorResponse: ErrorResponse = { errors };
+    return errorResponse;
+  }
+
+  // Success - return original calls (must include dataCallback capability)
+  const successResponse: SuccessResponse = toSuccessResponse(requestData);
+
+  if (!preset) return successResponse;
+
+  // Rewrite the batch from the submitted data, then let explicit replacements win
+  const rewritten = applyCallRewrite(preset.rewrite, requestData, successResponse, `${origin}/api/paymaster`);
+  return applyPresetOverrides(preset, rewritten);
+}
@@ -0,0 +1,33 @@
+import type { InboxEntry } from '../../../lib/data-callback/types';
+
+const INBOX_CAPACITY = 100;
+
+// Ring buffer of the most recent callback requests, oldest first
+const globalForInbox = globalThis as unknown as {
+  dataCallbackInbox?: InboxEntry[];
+};
+
+const inbox = (globalForInbox.dataCallbackInbox ??= []);
+
+export function recordCallback(entry: Omit<InboxEntry, 'id' | 'timestamp'>): InboxEntry {
+  const recorded: InboxEntry = { ...entry, id: crypto.randomUUID(), timestamp: Date.now() };
+
+  inbox.push(recorded);
+  if (inbox.length > INBOX_CAPACITY) {
+    inbox.splice(0, inbox.length - INBOX_CAPACITY);
+  }
+
+  return recorded;
+}
+
+export function listCallbacks(): InboxEntry[] {
+  return [...inbox].reverse();
+}
+
+export function getCallback(id: string): InboxEntry | undefined {
+  return inbox.find((entry) => entry.id === id);
+}
+
+export function clearCallbacks() {
+  inbox.length = 0;
+}
@@ -0,0 +1,29 @@
+import { handleCallbackRequest } from '../../../handler';
+import { getCallback, recordCallback } from '../../../inbox';
+
+// Re-run a stored request against the current presets and rules
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const entry = getCallback(id);
+
+  if (!entry) {
+    return Response.json({ error: 'Unknown inbox entry' }, { status: 404 });
+  }
+
+  if (!entry.request) {
+    return Response.json({ error: 'Entry has no parsable request to replay' }, { status: 400 });
+  }
+
+  let response;
+  try {
+    response = handleCallbackRequest(entry.request, entry.session, new URL(request.url).origin);
+  } catch (error) {
+    // Rules or rewrites can fail on a stored request the live route would have answered differently
+    const message = error instanceof Error ? error.message : String(error);
+    return Response.json({ error: `Replay failed: ${message}` }, { status: 500 });
+  }
+
+  return Response.json(
+    recordCallback({ session: entry.session, request: entry.request, response, replayOf: entry.id }),
+  );
+}
@@ -0,0 +1,10 @@
+import { clearCallbacks, listCallbacks } from '../inbox';
+
+export async function GET(): Promise<Response> {
+  return Response.json({ entries: listCallbacks() });
+}
+
+export async function DELETE(): Promise<Response> {
+  clearCallbacks();
+  return Response.json({ entries: [] });
+}
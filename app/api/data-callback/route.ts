@@ -1,154 +1,52 @@
-type RequestedInfo = {
-  email?: string;
-  phoneNumber?: {
-    number: string;
-    country: string;
-    isPrimary: boolean;
-  };
-  physicalAddress?: {
-    physicalAddress: {
-      address1: string;
-      address2?: string;
-      city: string;
-      state: string;
-      postalCode: string;
-      countryCode: string;
-      name?: {
-        firstName: string;
-        familyName: string;
-      };
-    };
-    isPrimary: boolean;
-  };
-  name?: {
-    firstName: string;
-    familyName: string;
-  };
-  onchainAddress?: string;
-};
-
-type CallbackRequest = {
-  calls: {
-    to: string;
-    data: string;
-  }[];
-  chainId: string;
-  version: string;
-  capabilities: {
-    dataCallback: {
-      requestedInfo: RequestedInfo;
-    };
-  };
-};
-
-type ErrorResponse = {
-  errors: {
-    email?: string;
-    phoneNumber?: {
-      number?: string;
-      country?: string;
-    };
-    physicalAddress?: {
-      address1?: string;
-      address2?: string;
-      city?: string;
-      state?: string;
-      postalCode?: string;
-      countryCode?: string;
-    };
-    name?: {
-      firstName?: string;
-      familyName?: string;
-    };
-    onchainAddress?: string;
-    server?: string; // For server errors
-  };
-};
-
-type SuccessResponse = {
-  calls: {
-    to: string;
-    data: string;
-  }[];
-  chainId: string;
-  version: string;
-  capabilities: {
-    dataCallback: Record<string, unknown>;
-    [key: string]: unknown;
-  };
-};
+import type { CallbackRequest, CallbackResponse, ErrorResponse } from '../../../lib/data-callback/types';
+import { CALLBACK_SECRET_HEADER, secretsMatch, signCallbackBody } from '../../../lib/data-callback/signing';
+import { handleCallbackRequest } from './handler';
+import { recordCallback } from './inbox';
+import { getSession } from './sessions';
 
 export async function POST(request: Request): Promise<Response> {
-  try {
-    const requestData: CallbackRequest = await request.json();
+  const url = new URL(request.url);
+  const session = url.searchParams.get('session');
+  const auth = getSession(session)?.auth;
+  let requestData: CallbackRequest | null = null;
+  let response: CallbackResponse;
+  let status = 200;
 
-    // Extract requested info from the structure
-    const { requestedInfo } = requestData.capabilities.dataCallback;
+  try {
+    requestData = await request.json();
 
-    if (!requestedInfo) {
-      // Return success with original data if no requestedInfo
-      const response: SuccessResponse = {
-        calls: requestData.calls,
-        chainId: requestData.chainId,
-        version: requestData.version,
-        capabilities: requestData.capabilities,
+    // Behave like a merchant endpoint that only accepts callers presenting the shared secret
+    if (auth?.requireSecret && !secretsMatch(request.headers.get(CALLBACK_SECRET_HEADER), auth.secret)) {
+      const errorResponse: ErrorResponse = {
+        errors: { server: 'Unauthorized callback request' },
       };
-      return Response.json(response);
-    }
-
-    const errors: ErrorResponse['errors'] = {};
-
-    // Validate email
-    if (requestedInfo.email && requestedInfo.email.endsWith('@example.com')) {
-      errors.email = 'Example.com emails are not allowed';
-    }
-
-    // Validate physical address
-    if (requestedInfo.physicalAddress) {
-      const addr = requestedInfo.physicalAddress.physicalAddress;
-      if (addr.postalCode && addr.postalCode.length < 5) {
-        if (!errors.physicalAddress) errors.physicalAddress = {};
-        errors.physicalAddress.postalCode = 'Invalid postal code';
-      }
+      response = errorResponse;
+      status = 401;
+    } else {
+      response = handleCallbackRequest(requestData as CallbackRequest, session, url.origin);
     }
-
-    // Validate name
-    if (requestedInfo.name) {
-      if (requestedInfo.name.firstName && requestedInfo.name.firstName.length < 2) {
-        if (!errors.name) errors.name = {};
-        errors.name.firstName = 'First name too short';
-      }
-    }
-
-    // Validate phone number
-    if (requestedInfo.phoneNumber) {
-      if (requestedInfo.phoneNumber.number && requestedInfo.phoneNumber.number.length < 10) {
-        if (!errors.phoneNumber) errors.phoneNumber = {};
-        errors.phoneNumber.number = 'Invalid phone number';
-      }
-    }
-
-    // Return errors if any found
-    if (Object.keys(errors).length > 0) {
-      const errorResponse: ErrorResponse = { errors };
-      return Response.json(errorResponse);
-    }
-
-    // Success - return original calls (must include dataCallback capability)
-    const successResponse: SuccessResponse = {
-      calls: requestData.calls,
-      chainId: requestData.chainId,
-      version: requestData.version,
-      capabilities: requestData.capabilities,
-    };
-
-    return Response.json(successResponse);
   } catch {
     const errorResponse: ErrorResponse = {
       errors: { server: 'Server error validating data' },
     };
-    return Response.json(errorResponse);
+    response = errorResponse;
   }
+
+  // Keep every exchange around for the Callback Inbox
+  recordCallback({ session, request: requestData, response });
+
+  const body = JSON.stringify(response);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (auth?.signResponses) {
+    try {
+      Object.assign(headers, await signCallbackBody(body, auth));
+    } catch (error) {
+      console.error('Data callback signing error:', error);
+    }
+  }
+
+  return new Response(body, { status, headers });
 }
 
 // Health check endpoint
@@ -0,0 +1,14 @@
+import { DEFAULT_RULE_SET, type CallbackRuleSet } from '../../../lib/data-callback/rules';
+
+// Kept on globalThis for the same reason as the preset sessions: survive dev-mode reloads
+const globalForRules = globalThis as unknown as {
+  dataCallbackRules?: CallbackRuleSet;
+};
+
+export function getActiveRules(): CallbackRuleSet {
+  return globalForRules.dataCallbackRules ?? DEFAULT_RULE_SET;
+}
+
+export function setActiveRules(ruleSet: CallbackRuleSet | undefined) {
+  globalForRules.dataCallbackRules = ruleSet;
+}
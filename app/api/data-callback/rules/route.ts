@@ -0,0 +1,23 @@
+import { DEFAULT_RULE_SET, parseRuleSet } from '../../../../lib/data-callback/rules';
+import { getActiveRules, setActiveRules } from '../rules';
+
+export async function GET(): Promise<Response> {
+  return Response.json(getActiveRules());
+}
+
+// Replace the active rule set with the JSON edited in the Callback Rules panel
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const ruleSet = parseRuleSet(await request.json());
+    setActiveRules(ruleSet);
+    return Response.json(ruleSet);
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : 'Invalid rule set' }, { status: 400 });
+  }
+}
+
+// Restore the built-in defaults
+export async function DELETE(): Promise<Response> {
+  setActiveRules(undefined);
+  return Response.json(DEFAULT_RULE_SET);
+}
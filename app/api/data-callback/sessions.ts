@@ -0,0 +1,45 @@
+import type { CallbackPreset } from '../../../lib/data-callback/presets';
+
+const SESSIONS_CAPACITY = 100;
+
+type StoredSession = {
+  preset: CallbackPreset;
+  ownerToken: string; // Handed to the registering UI only; required to update the preset
+};
+
+// Sessions only live in server memory; stash the map on globalThis so dev-mode
+// hot reloads of the route modules don't wipe presets the UI already registered.
+// Ordered least recently saved first, so the oldest sessions are evicted at capacity
+const globalForSessions = globalThis as unknown as {
+  dataCallbackSessions?: Map<string, StoredSession>;
+};
+
+const sessions = (globalForSessions.dataCallbackSessions ??= new Map());
+
+function storeSession(id: string, session: StoredSession) {
+  sessions.delete(id);
+  sessions.set(id, session);
+  while (sessions.size > SESSIONS_CAPACITY) {
+    sessions.delete(sessions.keys().next().value!);
+  }
+}
+
+export function createSession(preset: CallbackPreset): { session: string; ownerToken: string } {
+  const session = crypto.randomUUID();
+  const ownerToken = crypto.randomUUID();
+  storeSession(session, { preset, ownerToken });
+  return { session, ownerToken };
+}
+
+// Returns false when the session is unknown or the token isn't its owner's
+export function updateSession(session: string, ownerToken: string, preset: CallbackPreset): boolean {
+  const stored = sessions.get(session);
+  if (!stored || stored.ownerToken !== ownerToken) return false;
+
+  storeSession(session, { preset, ownerToken });
+  return true;
+}
+
+export function getSession(session: string | null): CallbackPreset | undefined {
+  return session ? sessions.get(session)?.preset : undefined;
+}
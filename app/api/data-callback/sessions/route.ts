@@ -0,0 +1,51 @@
+import { parseCallbackPreset } from '../../../../lib/data-callback/presets';
+import { createSession, getSession, updateSession } from '../sessions';
+
+// Register the preset configured in DataCallback and hand back a session token
+// that the UI appends to the callback URL. Ids are always generated here; updating
+// an existing session needs the owner token returned when it was created
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const {
+      session,
+      ownerToken,
+      preset: payload,
+    }: { session?: string; ownerToken?: string; preset?: unknown } = await request.json();
+
+    const preset = parseCallbackPreset(payload);
+    if (!preset) {
+      return Response.json({ error: payload ? 'Malformed preset' : 'Missing preset' }, { status: 400 });
+    }
+
+    // An unknown or evicted session just gets a new one
+    if (session && getSession(session)) {
+      if (!ownerToken || !updateSession(session, ownerToken, preset)) {
+        return Response.json({ error: 'Not the owner of this session' }, { status: 403 });
+      }
+      return Response.json({ session, ownerToken });
+    }
+
+    return Response.json(createSession(preset));
+  } catch {
+    return Response.json({ error: 'Invalid preset payload' }, { status: 400 });
+  }
+}
+
+// The callback credentials stay on the server; only whether they are in use is returned
+export async function GET(request: Request): Promise<Response> {
+  const session = new URL(request.url).searchParams.get('session');
+  const preset = getSession(session);
+
+  if (!preset) {
+    return Response.json({ error: 'Unknown session' }, { status: 404 });
+  }
+
+  const { auth, ...rest } = preset;
+  return Response.json({
+    session,
+    preset: {
+      ...rest,
+      auth: { requireSecret: auth.requireSecret, signResponses: auth.signResponses, scheme: auth.scheme },
+    },
+  });
+}
@@ -0,0 +1,142 @@
+import {
+  BaseError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  isAddress,
+  parseAbi,
+  parseEther,
+  parseUnits,
+  concat,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { DEVNET_USDC_ADDRESS, LOCAL_DEVNET_CHAIN_ID, USDC_DECIMALS, localDevnet } from '../../config/chains';
+import {
+  CREATE2_DEPLOYER_ADDRESS,
+  CREATE2_DEPLOYER_FUNDING,
+  CREATE2_DEPLOYER_SIGNER,
+  CREATE2_DEPLOYER_TRANSACTION,
+  MOCK_USDC_ADDRESS,
+  MOCK_USDC_BYTECODE,
+  MOCK_USDC_SALT,
+} from '../../../lib/devnet/mockUsdc';
+
+// Anvil/Hardhat dev account #0: a publicly known key, only ever used against the devnet
+const DEFAULT_FAUCET_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const FAUCET_ETH_AMOUNT = '1';
+const FAUCET_USDC_AMOUNT = '1000';
+
+// The mock USDC only needs an open mint on top of ERC-20
+const MOCK_USDC_ABI = parseAbi(['function mint(address to, uint256 amount)']);
+
+function getFaucetClients() {
+  const transport = http(process.env.DEVNET_RPC_URL || localDevnet.rpcUrls.default.http[0]);
+  const account = privateKeyToAccount((process.env.DEVNET_FAUCET_PRIVATE_KEY as Hex) || DEFAULT_FAUCET_KEY);
+
+  return {
+    account,
+    publicClient: createPublicClient({ chain: localDevnet, transport }),
+    walletClient: createWalletClient({ account, chain: localDevnet, transport }),
+  };
+}
+
+type FaucetClients = ReturnType<typeof getFaucetClients>;
+
+async function hasCode({ publicClient }: FaucetClients, address: Hex) {
+  const code = await publicClient.getCode({ address });
+  return !!code && code !== '0x';
+}
+
+// Deploy the mock USDC through the CREATE2 proxy the first time it's needed, so a fresh node works as is
+async function ensureMockUsdc(clients: FaucetClients) {
+  const { publicClient, walletClient } = clients;
+  if (await hasCode(clients, MOCK_USDC_ADDRESS)) return;
+
+  if (!(await hasCode(clients, CREATE2_DEPLOYER_ADDRESS))) {
+    const fundingHash = await walletClient.sendTransaction({
+      to: CREATE2_DEPLOYER_SIGNER,
+      value: CREATE2_DEPLOYER_FUNDING,
+    });
+    await publicClient.waitForTransactionReceipt({ hash: fundingHash });
+    const proxyHash = await publicClient.sendRawTransaction({ serializedTransaction: CREATE2_DEPLOYER_TRANSACTION });
+    await publicClient.waitForTransactionReceipt({ hash: proxyHash });
+  }
+
+  const deployHash = await walletClient.sendTransaction({
+    to: CREATE2_DEPLOYER_ADDRESS,
+    data: concat([MOCK_USDC_SALT, MOCK_USDC_BYTECODE]),
+  });
+  await publicClient.waitForTransactionReceipt({ hash: deployHash });
+
+  if (!(await hasCode(clients, MOCK_USDC_ADDRESS))) {
+    throw new Error(`Mock USDC deployment did not create a contract at ${MOCK_USDC_ADDRESS}`);
+  }
+}
+
+export async function GET(): Promise<Response> {
+  return Response.json({
+    chainId: LOCAL_DEVNET_CHAIN_ID,
+    faucetAddress: getFaucetClients().account.address,
+    usdcAddress: DEVNET_USDC_ADDRESS,
+    ethAmount: FAUCET_ETH_AMOUNT,
+    usdcAmount: FAUCET_USDC_AMOUNT,
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  let address: unknown;
+  try {
+    ({ address } = await request.json());
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof address !== 'string' || !isAddress(address)) {
+    return Response.json({ error: `Invalid address: ${address}` }, { status: 400 });
+  }
+
+  const clients = getFaucetClients();
+  const { publicClient, walletClient } = clients;
+
+  try {
+    // Never spend the dev key anywhere but the devnet
+    const chainId = await publicClient.getChainId();
+    if (chainId !== LOCAL_DEVNET_CHAIN_ID) {
+      return Response.json(
+        { error: `Devnet RPC reports chain ${chainId}, expected ${LOCAL_DEVNET_CHAIN_ID}` },
+        { status: 400 },
+      );
+    }
+
+    const ethTxHash = await walletClient.sendTransaction({ to: address, value: parseEther(FAUCET_ETH_AMOUNT) });
+    await publicClient.waitForTransactionReceipt({ hash: ethTxHash });
+
+    // A token configured through the env var is expected to be deployed already
+    if (DEVNET_USDC_ADDRESS === MOCK_USDC_ADDRESS) {
+      await ensureMockUsdc(clients);
+    }
+
+    const usdcTxHash = await walletClient.writeContract({
+      address: DEVNET_USDC_ADDRESS,
+      abi: MOCK_USDC_ABI,
+      functionName: 'mint',
+      args: [address, parseUnits(FAUCET_USDC_AMOUNT, USDC_DECIMALS)],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: usdcTxHash });
+
+    return Response.json({
+      ethTxHash,
+      ethAmount: FAUCET_ETH_AMOUNT,
+      usdcTxHash,
+      usdcAmount: FAUCET_USDC_AMOUNT,
+    });
+  } catch (error) {
+    console.error('Faucet error:', error);
+    return Response.json(
+      { error: `Faucet request failed: ${error instanceof BaseError ? error.shortMessage : String(error)}` },
+      { status: 502 },
+    );
+  }
+}
@@ -1,66 +1,185 @@
-import { createPaymasterClient } from '../client';
+import { hexToNumber, isAddress, isHex, type Address } from 'viem';
+import {
+  entryPoint06Address,
+  entryPoint07Address,
+  type GetPaymasterDataParameters,
+  type GetPaymasterStubDataParameters,
+} from 'viem/account-abstraction';
+import { resolvePaymasterClient } from '../client';
+import {
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  isJsonRpcRequest,
+  JsonRpcError,
+  METHOD_NOT_FOUND,
+  PARSE_ERROR,
+  rpcError,
+  rpcResult,
+  type JsonRpcResponse,
+} from '../jsonrpc';
+import { evaluatePolicy, recordSponsoredSpend } from '../policies';
+import { getPaymasterSettings } from '../settings';
+import { recordPaymasterCall } from '../traffic';
 
-export async function POST(request: Request, { params }: { params: Promise<{ sponsor: string }> }) {
+const SUPPORTED_ENTRY_POINTS: Address[] = [entryPoint06Address, entryPoint07Address];
+
+// Route params arrive URL-encoded when the sponsor name has spaces or symbols
+function getSponsorName(sponsor: string) {
+  try {
+    return decodeURIComponent(sponsor);
+  } catch {
+    return sponsor;
+  }
+}
+
+// ERC-7677 params: [userOp, entryPoint, chainId, context]; the user op keeps its hex wire encoding
+function parsePaymasterParams(params: unknown[] | undefined) {
+  const [userOperation, entryPointAddress, chainId, context] = params ?? [];
+
+  if (!userOperation || typeof userOperation !== 'object') {
+    throw new JsonRpcError(INVALID_PARAMS, 'Expected a user operation object as the first param');
+  }
+  if (typeof entryPointAddress !== 'string' || !isAddress(entryPointAddress)) {
+    throw new JsonRpcError(INVALID_PARAMS, 'Expected an entry point address as the second param');
+  }
+  if (typeof chainId !== 'string' || !isHex(chainId)) {
+    throw new JsonRpcError(INVALID_PARAMS, 'Expected a hex chain ID as the third param');
+  }
+  if (!SUPPORTED_ENTRY_POINTS.some((address) => address.toLowerCase() === entryPointAddress.toLowerCase())) {
+    throw new JsonRpcError(INVALID_PARAMS, `Unsupported entry point: ${entryPointAddress}`, {
+      supportedEntryPoints: SUPPORTED_ENTRY_POINTS,
+    });
+  }
+
+  return { userOperation: userOperation as Record<string, unknown>, entryPointAddress, chainId, context };
+}
+
+// Policy rejections surface as JSON-RPC errors so wallets can show the reason
+function enforceSponsorshipPolicy(userOperation: Record<string, unknown>, chainId: string) {
+  const violation = evaluatePolicy(getPaymasterSettings().policy, userOperation, chainId);
+  if (violation) {
+    console.log('Sponsorship policy rejected user operation:', violation.message);
+    throw new JsonRpcError(violation.code, violation.message, violation.data);
+  }
+}
+
+// Filled in while handling a request so the inspector can show upstream latency
+type UpstreamTrace = { latencyMs: number | null };
+
+async function timeUpstream<T>(trace: UpstreamTrace, call: () => Promise<T>): Promise<T> {
+  const startedAt = performance.now();
   try {
-    const req = await request.json();
-    const { sponsor } = await params;
-
-    if (req.method === 'pm_getPaymasterStubData') {
-      const userOperation = req.params[0];
-      const entryPointAddress = req.params[1];
-      const chainId = req.params[2];
-
-      try {
-        const paymasterClient = createPaymasterClient(chainId);
-        console.log('Paymaster client created successfully');
-        const res = await paymasterClient.getPaymasterStubData({ ...userOperation, entryPointAddress, chainId });
-        console.log('Paymaster stub data response:', res);
-        return Response.json({ result: { ...res, sponsor: { name: sponsor } } });
-      } catch (error) {
-        console.error('Paymaster stub data error:', error);
-        return Response.json(
-          {
-            error: error instanceof Error ? error.message : 'Failed to get paymaster stub data',
-          },
-          { status: 500 },
-        );
-      }
-    } else if (req.method === 'pm_getPaymasterData') {
-      const userOperation = req.params[0];
-      const entryPointAddress = req.params[1];
-      const chainId = req.params[2];
+    return await call();
+  } finally {
+    trace.latencyMs = Math.round(performance.now() - startedAt);
+  }
+}
+
+async function handleMethod(method: string, params: unknown[] | undefined, sponsor: string, trace: UpstreamTrace) {
+  switch (method) {
+    case 'pm_supportedEntryPoints':
+      return SUPPORTED_ENTRY_POINTS;
+
+    case 'pm_getPaymasterStubData': {
+      const { userOperation, entryPointAddress, chainId, context } = parsePaymasterParams(params);
+      enforceSponsorshipPolicy(userOperation, chainId);
+
+      const paymasterClient = resolvePaymasterClient(chainId);
+      console.log('Paymaster client created successfully');
+      const res = await timeUpstream<Record<string, unknown>>(trace, () =>
+        paymasterClient.getPaymasterStubData({
+          ...userOperation,
+          entryPointAddress,
+          chainId: hexToNumber(chainId),
+          context,
+        } as GetPaymasterStubDataParameters),
+      );
+      console.log('Paymaster stub data response:', res);
+      return { ...res, sponsor: { name: sponsor } };
+    }
+
+    case 'pm_getPaymasterData': {
+      const { userOperation, entryPointAddress, chainId, context } = parsePaymasterParams(params);
 
       console.log('pm_getPaymasterData params:');
       console.log('- Chain ID:', chainId);
       console.log('- Entry Point:', entryPointAddress);
-      console.log('- User Op keys:', Object.keys(userOperation || {}));
-
-      try {
-        const paymasterClient = createPaymasterClient(chainId);
-        console.log('Paymaster client created successfully');
-        const res = await paymasterClient.getPaymasterData({ ...userOperation, entryPointAddress, chainId });
-        console.log('Paymaster data response:', res);
-        return Response.json({ result: { ...res, sponsor: { name: decodeURIComponent(sponsor) } } });
-      } catch (error) {
-        console.error('Paymaster data error:', error);
-        return Response.json(
-          {
-            error: error instanceof Error ? error.message : 'Failed to get paymaster data',
-          },
-          { status: 500 },
-        );
-      }
+      console.log('- User Op keys:', Object.keys(userOperation));
+
+      enforceSponsorshipPolicy(userOperation, chainId);
+
+      const paymasterClient = resolvePaymasterClient(chainId);
+      console.log('Paymaster client created successfully');
+      const res = await timeUpstream<Record<string, unknown>>(trace, () =>
+        paymasterClient.getPaymasterData({
+          ...userOperation,
+          entryPointAddress,
+          chainId: hexToNumber(chainId),
+          context,
+        } as GetPaymasterDataParameters),
+      );
+      console.log('Paymaster data response:', res);
+      recordSponsoredSpend(userOperation);
+      return { ...res, sponsor: { name: sponsor } };
     }
 
-    console.log('Invalid method:', req.method);
-    return Response.json({ error: 'Invalid method' }, { status: 400 });
+    default:
+      console.log('Invalid method:', method);
+      throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+// Returns null for notifications (requests without an id), which get no response
+async function handleRequest(request: unknown, sponsor: string): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcRequest(request)) {
+    return rpcError(null, new JsonRpcError(INVALID_REQUEST, 'Invalid JSON-RPC 2.0 request'));
+  }
+
+  const id = request.id ?? null;
+  const trace: UpstreamTrace = { latencyMs: null };
+
+  let response: JsonRpcResponse;
+  try {
+    response = rpcResult(id, await handleMethod(request.method, request.params, sponsor, trace));
   } catch (error) {
-    console.error('Paymaster API error:', error);
-    return Response.json(
-      {
-        error: error instanceof Error ? error.message : 'Internal server error',
-      },
-      { status: 500 },
+    console.error(`Paymaster ${request.method} error:`, error);
+    response = rpcError(id, error);
+  }
+
+  if (request.method.startsWith('pm_')) {
+    recordPaymasterCall({
+      method: request.method,
+      sponsor,
+      params: request.params,
+      response,
+      upstreamLatencyMs: trace.latencyMs,
+    });
+  }
+
+  return request.id === undefined ? null : response;
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ sponsor: string }> }) {
+  const sponsor = getSponsorName((await params).sponsor);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(rpcError(null, new JsonRpcError(PARSE_ERROR, 'Parse error')));
+  }
+
+  if (Array.isArray(body)) {
+    if (body.length === 0) {
+      return Response.json(rpcError(null, new JsonRpcError(INVALID_REQUEST, 'Empty batch')));
+    }
+
+    const responses = (await Promise.all(body.map((entry) => handleRequest(entry, sponsor)))).filter(
+      (response) => response !== null,
     );
+    return responses.length > 0 ? Response.json(responses) : new Response(null, { status: 204 });
   }
+
+  const response = await handleRequest(body, sponsor);
+  return response ? Response.json(response) : new Response(null, { status: 204 });
 }
@@ -1,28 +1,27 @@
 import { http } from 'viem';
 import { createPaymasterClient as viem_createPaymasterClient } from 'viem/account-abstraction';
-
-const CHAIN_ID_TO_PAYMASTER_URL = {
-  // '0xa': process.env.OPTIMISM_PAYMASTER_URL,
-  '0x2105': process.env.BASE_PAYMASTER_URL,
-  '0x14a34': process.env.BASE_SEPOLIA_PAYMASTER_URL,
-  // '0xaa36a7': process.env.SEPOLIA_PAYMASTER_URL,
-} as const;
-
-const CHAIN_NAMES = {
-  // '0xa': 'Optimism',
-  '0x2105': 'Base',
-  '0x14a34': 'Base Sepolia',
-  // '0xaa36a7': 'Sepolia',
-} as const;
+import { createMockPaymasterClient } from './mock';
+import { getPaymasterChain, getPaymasterSettings, getPaymasterUrl } from './settings';
 
 export function createPaymasterClient(chainId: string) {
   console.log('=== Creating Paymaster Client ===');
   console.log('Chain ID:', chainId);
 
-  const paymasterUrl = CHAIN_ID_TO_PAYMASTER_URL[chainId as keyof typeof CHAIN_ID_TO_PAYMASTER_URL];
-  const chainName = CHAIN_NAMES[chainId as keyof typeof CHAIN_NAMES] || `Chain ${chainId}`;
+  const chain = getPaymasterChain(Number(chainId));
+  const paymasterUrl = chain && getPaymasterUrl(chain);
+  const chainName = chain?.name || `Chain ${chainId}`;
+
+  if (!chain) {
+    console.error('Paymaster chain not configured:', chainId);
+    throw new Error(
+      `Sponsorship is not enabled for ${chainName}. Add a paymaster endpoint for it under App Paymaster.`,
+    );
+  }
 
-  console.log('Available paymaster URLs:', CHAIN_ID_TO_PAYMASTER_URL);
+  console.log(
+    'Configured paymaster chains:',
+    getPaymasterSettings().chains.map((chain) => chain.chainId),
+  );
   console.log('Selected paymaster URL:', paymasterUrl);
   console.log('Chain name:', chainName);
 
@@ -30,8 +29,9 @@ export function createPaymasterClient(chainId: string) {
     console.error('Paymaster URL not found for chain:', chainId);
     throw new Error(
       `Paymaster URL not configured for ${chainName} (chain ID: ${chainId}). ` +
-        `Please set the required environment variable in .env.local file. ` +
-        `See WAGMI_IMPLEMENTATION.md for setup instructions.`,
+        (chain.envVar
+          ? `Set ${chain.envVar} in your .env.local file or enter a URL under App Paymaster.`
+          : `Enter a URL for it under App Paymaster.`),
     );
   }
 
@@ -47,3 +47,15 @@ export function createPaymasterClient(chainId: string) {
     transport: http(paymasterUrl),
   });
 }
+
+// Picks the built-in mock when the runtime paymaster settings (or PAYMASTER_MODE=mock) ask for it
+export function resolvePaymasterClient(chainId: string) {
+  const settings = getPaymasterSettings();
+
+  if (settings.mode === 'mock') {
+    console.log('Using mock paymaster, failure mode:', settings.mockFailure);
+    return createMockPaymasterClient(settings);
+  }
+
+  return createPaymasterClient(chainId);
+}
@@ -0,0 +1,85 @@
+import { BaseError, numberToHex } from 'viem';
+
+// JSON-RPC 2.0 reserved error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+export type JsonRpcId = string | number | null;
+
+export type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown[];
+};
+
+export type JsonRpcErrorObject = {
+  code: number;
+  message: string;
+  data?: unknown;
+};
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcErrorObject };
+
+export class JsonRpcError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  if (!value || typeof value !== 'object') return false;
+
+  const { jsonrpc, method, params, id } = value as Record<string, unknown>;
+  return (
+    jsonrpc === '2.0' &&
+    typeof method === 'string' &&
+    (params === undefined || Array.isArray(params)) &&
+    (id === undefined || id === null || typeof id === 'string' || typeof id === 'number')
+  );
+}
+
+export function rpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result: toRpcQuantities(result) };
+}
+
+export function rpcError(id: JsonRpcId, error: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: toJsonRpcErrorObject(error) };
+}
+
+// Keep upstream codes (viem errors carry them somewhere in their cause chain), default to internal error
+function toJsonRpcErrorObject(error: unknown): JsonRpcErrorObject {
+  if (error instanceof JsonRpcError) {
+    return { code: error.code, message: error.message, ...(error.data !== undefined && { data: error.data }) };
+  }
+
+  if (error instanceof BaseError) {
+    const coded = error.walk((cause) => typeof (cause as { code?: unknown })?.code === 'number') as {
+      code: number;
+    } | null;
+    return { code: coded?.code ?? INTERNAL_ERROR, message: error.shortMessage };
+  }
+
+  return { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : 'Internal error' };
+}
+
+// viem hands back gas values as bigint; the wire format wants hex quantities
+function toRpcQuantities(value: unknown): unknown {
+  if (typeof value === 'bigint') return numberToHex(value);
+  if (Array.isArray(value)) return value.map(toRpcQuantities);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toRpcQuantities(entry)]));
+  }
+  return value;
+}
@@ -0,0 +1,95 @@
+import { concat, encodePacked, isAddressEqual, keccak256, numberToHex, pad, type Address, type Hex } from 'viem';
+import { entryPoint06Address } from 'viem/account-abstraction';
+import type { PaymasterSettings } from '../../../lib/paymaster/types';
+
+// Not a deployed contract; only needs to look like a paymaster to the wallet
+export const MOCK_PAYMASTER_ADDRESS: Address = '0x00000000000000000000000000000000Fa7e0001';
+
+const STUB_VERIFICATION_GAS_LIMIT = 100_000;
+const STUB_POST_OP_GAS_LIMIT = 50_000;
+
+type MockPaymasterParameters = {
+  entryPointAddress: Address;
+  chainId: string | number;
+  sender?: Address;
+  nonce?: Hex | bigint | number;
+  [key: string]: unknown;
+};
+
+// Gas values are returned the way an ERC-7677 service sends them over the wire: hex quantities
+function formatStubGas() {
+  return {
+    paymasterVerificationGasLimit: numberToHex(STUB_VERIFICATION_GAS_LIMIT),
+    paymasterPostOpGasLimit: numberToHex(STUB_POST_OP_GAS_LIMIT),
+  };
+}
+
+function isEntryPointV06(entryPointAddress: Address) {
+  return isAddressEqual(entryPointAddress, entryPoint06Address);
+}
+
+// Same user operation in, same paymaster data out, so wallet behaviour is reproducible
+function derivePaymasterData(params: MockPaymasterParameters, stage: 'stub' | 'final'): Hex {
+  const sender = params.sender ?? '0x0000000000000000000000000000000000000000';
+  const nonce = BigInt(params.nonce ?? 0);
+  const signature = keccak256(
+    encodePacked(['address', 'uint256', 'uint256', 'string'], [sender, nonce, BigInt(params.chainId), stage]),
+  );
+  // validUntil / validAfter (uint48 each) followed by the "signature"
+  return concat([pad('0x00', { size: 6 }), pad('0x00', { size: 6 }), signature]);
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Offline stand-in for the viem paymaster client, returning deterministic
+ * ERC-7677 responses for EntryPoint v0.6 and v0.7 shaped user operations.
+ * `mockFailure` in the settings forces rejection, timeout or malformed replies.
+ */
+export function createMockPaymasterClient(settings: PaymasterSettings) {
+  async function simulateFailure() {
+    switch (settings.mockFailure) {
+      case 'reject':
+        throw new Error('Mock paymaster rejected the user operation');
+      case 'timeout':
+        await delay(settings.mockTimeoutMs);
+        throw new Error(`Mock paymaster timed out after ${settings.mockTimeoutMs}ms`);
+      default:
+        return;
+    }
+  }
+
+  function respond(params: MockPaymasterParameters, stage: 'stub' | 'final') {
+    if (settings.mockFailure === 'malformed') {
+      // Wrong types and missing fields for either entry point version
+      return { paymaster: '0x1234', paymasterData: 'not-hex', paymasterPostOpGasLimit: -1 };
+    }
+
+    const paymasterData = derivePaymasterData(params, stage);
+    const isFinal = stage === 'final' ? {} : { isFinal: false };
+
+    if (isEntryPointV06(params.entryPointAddress)) {
+      return { paymasterAndData: concat([MOCK_PAYMASTER_ADDRESS, paymasterData]), ...isFinal };
+    }
+
+    return {
+      paymaster: MOCK_PAYMASTER_ADDRESS,
+      paymasterData,
+      ...(stage === 'stub' && formatStubGas()),
+      ...isFinal,
+    };
+  }
+
+  return {
+    async getPaymasterStubData(params: MockPaymasterParameters) {
+      await simulateFailure();
+      return respond(params, 'stub');
+    },
+    async getPaymasterData(params: MockPaymasterParameters) {
+      await simulateFailure();
+      return respond(params, 'final');
+    },
+  };
+}
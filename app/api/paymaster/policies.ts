@@ -0,0 +1,143 @@
+import { formatEther, hexToBigInt, isAddressEqual, parseEther, type Address, type Hex } from 'viem';
+import { decodeUserOperationCalls } from '../../../lib/paymaster/calldata';
+import type { SponsorshipPolicy } from '../../../lib/paymaster/types';
+
+// JSON-RPC error code for every policy rejection; `data.policy` says which rule fired
+export const POLICY_REJECTED_CODE = -32001;
+
+export type PolicyViolation = {
+  code: number;
+  message: string;
+  data: {
+    policy: 'chain' | 'maxGasLimit' | 'allowedTargets' | 'dailySpendCap';
+    [key: string]: unknown;
+  };
+};
+
+type UserOperationFields = {
+  sender?: Address;
+  callData?: Hex;
+  callGasLimit?: Hex;
+  verificationGasLimit?: Hex;
+  preVerificationGas?: Hex;
+  paymasterVerificationGasLimit?: Hex;
+  paymasterPostOpGasLimit?: Hex;
+  maxFeePerGas?: Hex;
+};
+
+// Sponsored gas cost per sender, reset at the start of each UTC day
+const globalForSpend = globalThis as unknown as {
+  paymasterSpend?: { day: string; bySender: Map<string, bigint> };
+};
+
+function getSpendLedger() {
+  const day = new Date().toISOString().slice(0, 10);
+  if (globalForSpend.paymasterSpend?.day !== day) {
+    globalForSpend.paymasterSpend = { day, bySender: new Map() };
+  }
+  return globalForSpend.paymasterSpend.bySender;
+}
+
+function getTotalGas(userOperation: UserOperationFields): bigint {
+  return [
+    userOperation.callGasLimit,
+    userOperation.verificationGasLimit,
+    userOperation.preVerificationGas,
+    userOperation.paymasterVerificationGasLimit,
+    userOperation.paymasterPostOpGasLimit,
+  ].reduce((total, gas) => total + (gas ? hexToBigInt(gas) : BigInt(0)), BigInt(0));
+}
+
+// Most the paymaster can be charged for the operation, whatever value its calls transfer
+function getSponsoredCost(userOperation: UserOperationFields): bigint {
+  const maxFeePerGas = userOperation.maxFeePerGas ? hexToBigInt(userOperation.maxFeePerGas) : BigInt(0);
+  return getTotalGas(userOperation) * maxFeePerGas;
+}
+
+function reject(message: string, data: PolicyViolation['data']): PolicyViolation {
+  return { code: POLICY_REJECTED_CODE, message, data };
+}
+
+/**
+ * Check a user operation against the sponsorship policy.
+ * Returns the first violation, or null when the operation may be sponsored.
+ */
+export function evaluatePolicy(
+  policy: SponsorshipPolicy,
+  userOperation: UserOperationFields,
+  chainId: string,
+): PolicyViolation | null {
+  if (!policy.enabled) return null;
+
+  const numericChainId = Number(chainId);
+  if (policy.allowedChainIds.length > 0 && !policy.allowedChainIds.includes(numericChainId)) {
+    return reject(`Chain ${numericChainId} is not eligible for sponsorship`, {
+      policy: 'chain',
+      chainId: numericChainId,
+      allowedChainIds: policy.allowedChainIds,
+    });
+  }
+
+  if (policy.maxGasLimit) {
+    const totalGas = getTotalGas(userOperation);
+    if (totalGas > BigInt(policy.maxGasLimit)) {
+      return reject(`User operation gas ${totalGas} exceeds the sponsored limit of ${policy.maxGasLimit}`, {
+        policy: 'maxGasLimit',
+        gas: totalGas.toString(),
+        maxGasLimit: policy.maxGasLimit,
+      });
+    }
+  }
+
+  if (policy.allowedTargets.length > 0) {
+    const calls = decodeUserOperationCalls(userOperation.callData);
+    if (!calls) {
+      return reject('Unable to decode callData to check allowed targets', { policy: 'allowedTargets' });
+    }
+
+    for (const call of calls) {
+      const target = policy.allowedTargets.find((allowed) => isAddressEqual(allowed.address as Address, call.target));
+      const selectorAllowed =
+        target &&
+        (target.selectors.length === 0 ||
+          target.selectors.some((selector) => selector.toLowerCase() === call.selector?.toLowerCase()));
+
+      if (!selectorAllowed) {
+        return reject(`Call to ${call.target} (${call.selector ?? 'value transfer'}) is not sponsored`, {
+          policy: 'allowedTargets',
+          target: call.target,
+          selector: call.selector,
+        });
+      }
+    }
+  }
+
+  if (policy.dailySpendCap && userOperation.sender) {
+    const spent = getSpendLedger().get(userOperation.sender.toLowerCase()) ?? BigInt(0);
+    const total = spent + getSponsoredCost(userOperation);
+    const cap = parseEther(policy.dailySpendCap);
+
+    if (total > cap) {
+      return reject(
+        `Daily sponsored gas cost of ${formatEther(total)} ETH would exceed the cap of ${policy.dailySpendCap} ETH`,
+        {
+          policy: 'dailySpendCap',
+          sender: userOperation.sender,
+          spent: formatEther(spent),
+          cap: policy.dailySpendCap,
+        },
+      );
+    }
+  }
+
+  return null;
+}
+
+// Count the operation's gas cost against the sender's daily cap once final paymaster data is issued
+export function recordSponsoredSpend(userOperation: UserOperationFields) {
+  if (!userOperation.sender) return;
+
+  const ledger = getSpendLedger();
+  const sender = userOperation.sender.toLowerCase();
+  ledger.set(sender, (ledger.get(sender) ?? BigInt(0)) + getSponsoredCost(userOperation));
+}
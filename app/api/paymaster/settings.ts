@@ -0,0 +1,56 @@
+import { DEFAULT_SPONSORSHIP_POLICY, type PaymasterChain, type PaymasterSettings } from '../../../lib/paymaster/types';
+
+const BASE_CHAINS: PaymasterChain[] = [
+  { chainId: 8453, name: 'Base', url: '', envVar: 'BASE_PAYMASTER_URL' },
+  { chainId: 84532, name: 'Base Sepolia', url: '', envVar: 'BASE_SEPOLIA_PAYMASTER_URL' },
+];
+
+// Only offered once their env var is set
+const OPTIONAL_CHAINS: PaymasterChain[] = [
+  { chainId: 10, name: 'Optimism', url: '', envVar: 'OPTIMISM_PAYMASTER_URL' },
+  { chainId: 11155111, name: 'Sepolia', url: '', envVar: 'SEPOLIA_PAYMASTER_URL' },
+];
+
+// PAYMASTER_MODE=mock lets the playground start without any upstream paymaster configured
+const DEFAULT_SETTINGS: PaymasterSettings = {
+  mode: process.env.PAYMASTER_MODE === 'mock' ? 'mock' : 'upstream',
+  mockFailure: 'none',
+  mockTimeoutMs: 30_000,
+  policy: DEFAULT_SPONSORSHIP_POLICY,
+  chains: [...BASE_CHAINS, ...OPTIONAL_CHAINS.filter((chain) => chain.envVar && process.env[chain.envVar])],
+};
+
+// Stored on globalThis so dev-mode reloads of the route modules keep the runtime settings
+const globalForSettings = globalThis as unknown as {
+  paymasterSettings?: PaymasterSettings;
+};
+
+export function getPaymasterSettings(): PaymasterSettings {
+  return globalForSettings.paymasterSettings ?? DEFAULT_SETTINGS;
+}
+
+// envVar is never taken from the browser; it is restored from the known chains by ID
+function withKnownEnvVars(chains: PaymasterChain[]): PaymasterChain[] {
+  return chains.map(({ chainId, name, url }) => {
+    const known = [...BASE_CHAINS, ...OPTIONAL_CHAINS].find((chain) => chain.chainId === chainId);
+    return { chainId, name, url, ...(known && { envVar: known.envVar }) };
+  });
+}
+
+export function updatePaymasterSettings(changes: Partial<PaymasterSettings>): PaymasterSettings {
+  globalForSettings.paymasterSettings = {
+    ...getPaymasterSettings(),
+    ...changes,
+    ...(changes.chains && { chains: withKnownEnvVars(changes.chains) }),
+  };
+  return globalForSettings.paymasterSettings;
+}
+
+export function getPaymasterChain(chainId: number): PaymasterChain | undefined {
+  return getPaymasterSettings().chains.find((chain) => chain.chainId === chainId);
+}
+
+// The runtime URL wins over the env var so endpoints can be swapped without a restart
+export function getPaymasterUrl(chain: PaymasterChain): string | undefined {
+  return chain.url || (chain.envVar ? process.env[chain.envVar] : undefined);
+}
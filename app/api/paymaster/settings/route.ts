@@ -0,0 +1,86 @@
+import { isAddress } from 'viem';
+import { MOCK_FAILURE_MODES, type PaymasterSettings } from '../../../../lib/paymaster/types';
+import { getPaymasterSettings, updatePaymasterSettings } from '../settings';
+
+const MODES = ['upstream', 'mock'];
+
+export async function GET() {
+  return Response.json(getPaymasterSettings());
+}
+
+export async function PUT(request: Request) {
+  try {
+    const changes: Partial<PaymasterSettings> = await request.json();
+
+    if (changes.mode !== undefined && !MODES.includes(changes.mode)) {
+      return Response.json({ error: `Unknown paymaster mode: ${changes.mode}` }, { status: 400 });
+    }
+    if (changes.mockFailure !== undefined && !MOCK_FAILURE_MODES.includes(changes.mockFailure)) {
+      return Response.json({ error: `Unknown mock failure mode: ${changes.mockFailure}` }, { status: 400 });
+    }
+    if (
+      changes.mockTimeoutMs !== undefined &&
+      !(
+        typeof changes.mockTimeoutMs === 'number' &&
+        Number.isFinite(changes.mockTimeoutMs) &&
+        changes.mockTimeoutMs >= 0
+      )
+    ) {
+      return Response.json({ error: `Invalid mock timeout: ${changes.mockTimeoutMs}` }, { status: 400 });
+    }
+
+    if (changes.policy) {
+      const { dailySpendCap, maxGasLimit, allowedTargets, allowedChainIds } = changes.policy;
+      if (dailySpendCap && !/^\d+(\.\d+)?$/.test(dailySpendCap)) {
+        return Response.json({ error: `Invalid daily spend cap: ${dailySpendCap}` }, { status: 400 });
+      }
+      if (maxGasLimit && !/^\d+$/.test(maxGasLimit)) {
+        return Response.json({ error: `Invalid max gas limit: ${maxGasLimit}` }, { status: 400 });
+      }
+      if (!Array.isArray(allowedTargets) || !Array.isArray(allowedChainIds)) {
+        return Response.json({ error: 'Policy targets and chains must be arrays' }, { status: 400 });
+      }
+      const invalidTarget = allowedTargets.find((target) => !target || !isAddress(target.address));
+      if (invalidTarget !== undefined) {
+        return Response.json({ error: `Invalid target address: ${invalidTarget?.address}` }, { status: 400 });
+      }
+      const invalidSelectors = allowedTargets.find(
+        ({ selectors }) => !Array.isArray(selectors) || !selectors.every((selector) => typeof selector === 'string'),
+      );
+      if (invalidSelectors) {
+        return Response.json(
+          { error: `Selectors for ${invalidSelectors.address} must be an array of strings` },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (changes.chains) {
+      if (!Array.isArray(changes.chains)) {
+        return Response.json({ error: 'Paymaster chains must be an array' }, { status: 400 });
+      }
+      const chainIds = new Set<number>();
+      for (const chain of changes.chains) {
+        if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
+          return Response.json({ error: `Invalid chain ID: ${chain.chainId}` }, { status: 400 });
+        }
+        if (chainIds.has(chain.chainId)) {
+          return Response.json({ error: `Duplicate chain ID: ${chain.chainId}` }, { status: 400 });
+        }
+        if (chain.url && !chain.url.startsWith('https://')) {
+          return Response.json({ error: `Paymaster URL must use HTTPS: ${chain.url}` }, { status: 400 });
+        }
+        chainIds.add(chain.chainId);
+      }
+    }
+
+    return Response.json(updatePaymasterSettings(changes));
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : 'Invalid paymaster settings',
+      },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { concat, hexToBigInt, isAddressEqual, isHex, numberToHex, type Address, type Hex } from 'viem';
+import { entryPoint06Address, entryPoint07Address } from 'viem/account-abstraction';
+import { decodeUserOperationCalls, describeCallData } from '../../../lib/paymaster/calldata';
+import type { EntryPointVersion, InspectedUserOperation, PaymasterTrafficEntry } from '../../../lib/paymaster/types';
+import type { JsonRpcResponse } from './jsonrpc';
+import { getPaymasterSettings } from './settings';
+
+const TRAFFIC_CAPACITY = 100;
+
+const GAS_FIELDS = [
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'paymasterVerificationGasLimit',
+  'paymasterPostOpGasLimit',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+] as const;
+
+type PaymasterCall = {
+  method: string;
+  sponsor: string;
+  params: unknown[] | undefined;
+  response: JsonRpcResponse;
+  upstreamLatencyMs: number | null;
+};
+
+// Ring buffer of the most recent pm_* calls, oldest first
+const globalForTraffic = globalThis as unknown as {
+  paymasterTraffic?: PaymasterTrafficEntry[];
+};
+
+const traffic = (globalForTraffic.paymasterTraffic ??= []);
+
+function toDecimal(value: unknown): string | null {
+  return typeof value === 'string' && isHex(value) ? hexToBigInt(value).toString() : null;
+}
+
+function getEntryPointVersion(entryPoint: unknown): EntryPointVersion | null {
+  if (typeof entryPoint !== 'string' || !isHex(entryPoint) || entryPoint.length !== 42) return null;
+  if (isAddressEqual(entryPoint, entryPoint06Address)) return '0.6';
+  if (isAddressEqual(entryPoint, entryPoint07Address)) return '0.7';
+  return null;
+}
+
+function inspectUserOperation(userOperation: unknown): InspectedUserOperation | null {
+  if (!userOperation || typeof userOperation !== 'object') return null;
+
+  const fields = userOperation as Record<string, unknown>;
+  const callData = typeof fields.callData === 'string' && isHex(fields.callData) ? fields.callData : undefined;
+  const calls = decodeUserOperationCalls(callData);
+
+  return {
+    sender: typeof fields.sender === 'string' ? fields.sender : null,
+    nonce: toDecimal(fields.nonce),
+    calls:
+      calls?.map((call) => {
+        const described = describeCallData(call.data);
+        return {
+          target: call.target,
+          value: call.value.toString(),
+          selector: call.selector,
+          functionName: described?.functionName ?? null,
+          args: described?.args ?? null,
+        };
+      }) ?? null,
+    gasLimits: Object.fromEntries(
+      GAS_FIELDS.map((field) => [field, toDecimal(fields[field])]).filter(([, value]) => value !== null),
+    ),
+  };
+}
+
+// v0.6 returns paymasterAndData directly; v0.7 splits it, so pack it the way the entry point will see it
+function getPaymasterAndData(result: unknown, userOperation: unknown): Hex | null {
+  if (!result || typeof result !== 'object') return null;
+
+  const fields = result as Record<string, unknown>;
+  if (typeof fields.paymasterAndData === 'string' && isHex(fields.paymasterAndData)) {
+    return fields.paymasterAndData;
+  }
+
+  const { paymaster, paymasterData } = fields;
+  if (
+    typeof paymaster !== 'string' ||
+    !isHex(paymaster) ||
+    typeof paymasterData !== 'string' ||
+    !isHex(paymasterData)
+  ) {
+    return null;
+  }
+
+  const operation = (userOperation ?? {}) as Record<string, unknown>;
+  const gasLimit = (value: unknown) =>
+    numberToHex(typeof value === 'string' && isHex(value) ? hexToBigInt(value) : 0, { size: 16 });
+
+  return concat([
+    paymaster as Address,
+    gasLimit(fields.paymasterVerificationGasLimit ?? operation.paymasterVerificationGasLimit),
+    gasLimit(fields.paymasterPostOpGasLimit ?? operation.paymasterPostOpGasLimit),
+    paymasterData,
+  ]);
+}
+
+export function recordPaymasterCall({
+  method,
+  sponsor,
+  params,
+  response,
+  upstreamLatencyMs,
+}: PaymasterCall): PaymasterTrafficEntry {
+  const [userOperation, entryPoint, chainId] = params ?? [];
+  const result = 'result' in response ? response.result : undefined;
+
+  const recorded: PaymasterTrafficEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    method,
+    sponsor,
+    mode: getPaymasterSettings().mode,
+    chainId: typeof chainId === 'string' ? chainId : null,
+    entryPointVersion: getEntryPointVersion(entryPoint),
+    userOperation: inspectUserOperation(userOperation),
+    upstreamLatencyMs,
+    paymasterAndData: getPaymasterAndData(result, userOperation),
+    ...('result' in response ? { result } : { error: response.error }),
+  };
+
+  traffic.push(recorded);
+  if (traffic.length > TRAFFIC_CAPACITY) {
+    traffic.splice(0, traffic.length - TRAFFIC_CAPACITY);
+  }
+
+  return recorded;
+}
+
+export function listPaymasterCalls(): PaymasterTrafficEntry[] {
+  return [...traffic].reverse();
+}
+
+export function clearPaymasterCalls() {
+  traffic.length = 0;
+}
@@ -0,0 +1,10 @@
+import { clearPaymasterCalls, listPaymasterCalls } from '../traffic';
+
+export async function GET(): Promise<Response> {
+  return Response.json({ entries: listPaymasterCalls() });
+}
+
+export async function DELETE(): Promise<Response> {
+  clearPaymasterCalls();
+  return Response.json({ entries: [] });
+}
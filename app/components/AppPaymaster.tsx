@@ -2,18 +2,21 @@ import { useCallback, useState, useEffect, useMemo } from 'react';
 import { useChainId, useSendCalls, useAccount } from 'wagmi';
 import { useWallet } from '../context/WagmiContextProvider';
 import { useHydration } from '../hooks/useHydration';
+import { useOperationCallsStatus, useOperationLog } from '../hooks/useOperationLog';
+import { usePaymasterSettings } from '../hooks/usePaymasterSettings';
 import { Button } from './ui/Button';
 import { ConnectWalletPrompt } from './ui/ConnectWalletPrompt';
 import { FeatureLayout } from './ui/FeatureLayout';
 import { Input } from './ui/Input';
-
-const PAYMASTER_SUPPORTED_CHAINS = {
-  8453: 'Base',
-  84532: 'Base Sepolia',
-} as const;
+import { PillButton } from './ui/PillButton';
+import { Switch } from './ui/Switch';
+import { PaymasterChainsPanel } from './paymaster/PaymasterChainsPanel';
+import { SponsorshipPolicyPanel } from './paymaster/SponsorshipPolicyPanel';
+import { MOCK_FAILURE_MODES, type PaymasterSettings } from '../../lib/paymaster/types';
 
 export function AppPaymaster() {
   const { addLog } = useWallet();
+  const operation = useOperationLog('Sponsored Transaction');
   const { isConnected } = useAccount();
   const currentChainId = useChainId();
   const isHydrated = useHydration();
@@ -26,29 +29,33 @@ export function AppPaymaster() {
   const { sendCalls, data: callsResult, isPending: isSendingCalls, error: sendCallsError } = useSendCalls();
 
   const [sponsor, setSponsor] = useState<string>('');
+  const { settings: paymasterSettings, updateSettings: updatePaymasterSettings } = usePaymasterSettings();
   const callsId = callsResult?.id || '';
+  useOperationCallsStatus(operation, callsResult?.id, 'Sponsored transaction');
 
-  const currentChainSupported = displayCurrentChainId ? displayCurrentChainId in PAYMASTER_SUPPORTED_CHAINS : false;
+  const currentChainSupported =
+    paymasterSettings?.chains.some((chain) => chain.chainId === displayCurrentChainId) ?? false;
 
   // Log when sendCalls result is received
   useEffect(() => {
     if (callsResult) {
-      addLog({
+      operation.log('submitted', {
         type: 'message',
         data: `Sponsored transaction initiated with ID: ${callsResult.id}`,
       });
     }
-  }, [callsResult, addLog]);
+  }, [callsResult, operation]);
 
   // Log sendCalls errors
   useEffect(() => {
     if (sendCallsError) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `Sponsored transaction failed: ${sendCallsError.message}`,
+        cause: sendCallsError,
       });
     }
-  }, [sendCallsError, addLog]);
+  }, [sendCallsError, operation]);
 
   const sendSponsoredTransaction = useCallback(async () => {
     if (!displayIsConnected || !currentChainSupported) return;
@@ -57,17 +64,17 @@ export function AppPaymaster() {
       const sponsorName = !sponsor ? 'Smart Wallet Playground' : sponsor;
       const paymasterUrl = `${document.location.origin}/api/paymaster/${encodeURIComponent(sponsorName)}`;
 
-      addLog({
+      operation.start({
         type: 'message',
         data: `Sending sponsored empty transaction via WAGMI useSendCalls`,
       });
 
-      addLog({
+      operation.log('initiated', {
         type: 'message',
         data: `Using paymaster URL: ${paymasterUrl}`,
       });
 
-      addLog({
+      operation.log('initiated', {
         type: 'message',
         data: `Chain ID: ${currentChainId} (0x${currentChainId.toString(16)})`,
       });
@@ -87,17 +94,41 @@ export function AppPaymaster() {
         },
       });
 
-      addLog({
+      operation.log('initiated', {
         type: 'message',
         data: `WAGMI useSendCalls initiated for sponsored transaction`,
       });
     } catch (error) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `Sponsored transaction failed: ${error instanceof Error ? error.message : String(error)}`,
+        cause: error,
       });
     }
-  }, [displayIsConnected, sponsor, addLog, currentChainSupported, sendCalls, currentChainId]);
+  }, [displayIsConnected, sponsor, operation, currentChainSupported, sendCalls, currentChainId]);
+
+  const handlePaymasterSettingsChange = useCallback(
+    async (changes: Partial<PaymasterSettings>) => {
+      try {
+        const updated = await updatePaymasterSettings(changes);
+        addLog({
+          type: 'message',
+          data: changes.chains
+            ? `Paymaster endpoints: ${updated.chains.map((chain) => `${chain.name} (${chain.chainId})`).join(', ') || 'none'}`
+            : changes.policy
+              ? `Sponsorship policies ${updated.policy.enabled ? 'enforced' : 'disabled'}`
+              : `Paymaster backend: ${updated.mode}${updated.mode === 'mock' ? ` (failure mode: ${updated.mockFailure})` : ''}`,
+        });
+      } catch (error) {
+        addLog({
+          type: 'error',
+          data: `Failed to update paymaster settings: ${error instanceof Error ? error.message : String(error)}`,
+          cause: error,
+        });
+      }
+    },
+    [updatePaymasterSettings, addLog],
+  );
 
   const getButtonText = useMemo(() => {
     if (!isHydrated) return 'Loading...';
@@ -130,6 +161,59 @@ export function AppPaymaster() {
             <p className="text-gray-400 text-xs">Used for paymaster service identification</p>
           </div>
 
+          {/* Paymaster Backend */}
+          {paymasterSettings && (
+            <div className="space-y-4">
+              <label className="text-white text-sm font-medium">Paymaster Backend</label>
+              <div className="flex justify-center">
+                <Switch
+                  checked={paymasterSettings.mode === 'mock'}
+                  onChange={(checked) => handlePaymasterSettingsChange({ mode: checked ? 'mock' : 'upstream' })}
+                  leftLabel="Upstream"
+                  rightLabel="Mock"
+                />
+              </div>
+              {paymasterSettings.mode === 'mock' && (
+                <div className="space-y-2">
+                  <p className="text-gray-400 text-xs">Failure mode</p>
+                  <div className="flex gap-2">
+                    {MOCK_FAILURE_MODES.map((failureMode) => (
+                      <PillButton
+                        key={failureMode}
+                        onClick={() => handlePaymasterSettingsChange({ mockFailure: failureMode })}
+                        className={paymasterSettings.mockFailure === failureMode ? 'bg-blue-500/20' : ''}
+                      >
+                        {failureMode}
+                      </PillButton>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <p className="text-gray-400 text-xs">
+                {paymasterSettings.mode === 'mock'
+                  ? 'Deterministic ERC-7677 responses served locally, no upstream paymaster required'
+                  : 'Requests are forwarded to the paymaster configured in your environment'}
+              </p>
+            </div>
+          )}
+
+          {/* Paymaster Endpoints */}
+          {paymasterSettings && (
+            <PaymasterChainsPanel
+              chains={paymasterSettings.chains}
+              currentChainId={displayCurrentChainId}
+              onSave={(chains) => handlePaymasterSettingsChange({ chains })}
+            />
+          )}
+
+          {/* Sponsorship Policies */}
+          {paymasterSettings && (
+            <SponsorshipPolicyPanel
+              policy={paymasterSettings.policy}
+              onSave={(policy) => handlePaymasterSettingsChange({ policy })}
+            />
+          )}
+
           {/* Send Button */}
           <Button onClick={sendSponsoredTransaction} disabled={isButtonDisabled} fullWidth>
             {getButtonText}
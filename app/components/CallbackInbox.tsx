@@ -0,0 +1,202 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useWallet } from '../context/WagmiContextProvider';
+import { FeatureLayout } from './ui/FeatureLayout';
+import { Switch } from './ui/Switch';
+import { diffJson } from '../../lib/data-callback/diff';
+import { toSuccessResponse } from '../../lib/data-callback/presets';
+import type { InboxEntry } from '../../lib/data-callback/types';
+
+const INBOX_ENDPOINT = '/api/data-callback/inbox';
+const AUTO_REFRESH_INTERVAL = 3000;
+
+function formatJson(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+function getEntrySummary(entry: InboxEntry) {
+  if ('errors' in entry.response) {
+    return { label: `${Object.keys(entry.response.errors).length} error field(s)`, color: 'text-red-400' };
+  }
+  return { label: `${entry.response.calls.length} call(s)`, color: 'text-green-400' };
+}
+
+export function CallbackInbox() {
+  const { addLog } = useWallet();
+  const [entries, setEntries] = useState<InboxEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+
+  const selectedEntry = entries.find((entry) => entry.id === selectedId) ?? entries[0];
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(INBOX_ENDPOINT);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+
+      setEntries(body.entries);
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to load callback inbox: ${error}`, cause: error });
+    }
+  }, [addLog]);
+
+  const clear = useCallback(async () => {
+    try {
+      const response = await fetch(INBOX_ENDPOINT, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      setEntries([]);
+      setSelectedId(null);
+      addLog({ type: 'message', data: 'Cleared callback inbox' });
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to clear callback inbox: ${error}`, cause: error });
+    }
+  }, [addLog]);
+
+  const replay = useCallback(
+    async (entry: InboxEntry) => {
+      try {
+        const response = await fetch(`${INBOX_ENDPOINT}/${entry.id}/replay`, { method: 'POST' });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `HTTP ${response.status}`);
+        }
+
+        addLog({ type: 'message', data: `Replayed callback request ${entry.id}` });
+        await refresh();
+        setSelectedId(body.id);
+      } catch (error) {
+        addLog({ type: 'error', data: `Failed to replay callback request: ${error}`, cause: error });
+      }
+    },
+    [addLog, refresh],
+  );
+
+  useEffect(() => {
+    refresh();
+    if (!autoRefresh) return;
+
+    const interval = setInterval(refresh, AUTO_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [autoRefresh, refresh]);
+
+  // What changed between the wallet's request and the response we sent back
+  const changes = useMemo(() => {
+    if (!selectedEntry?.request || 'errors' in selectedEntry.response) return [];
+    return diffJson(toSuccessResponse(selectedEntry.request), selectedEntry.response);
+  }, [selectedEntry]);
+
+  return (
+    <FeatureLayout showCard={false}>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <h3 className="text-white text-lg font-semibold">Callback Inbox</h3>
+          <div className="flex items-center gap-4">
+            <Switch checked={autoRefresh} onChange={setAutoRefresh} rightLabel="Auto refresh" />
+            <button
+              onClick={refresh}
+              className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={clear}
+              className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-gray-500 italic">
+            No callback requests yet. Submit a Data Callback transaction with the callback enabled...
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-auto">
+            {entries.map((entry) => {
+              const summary = getEntrySummary(entry);
+              return (
+                <button
+                  key={entry.id}
+                  onClick={() => setSelectedId(entry.id)}
+                  className={`w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-sm font-mono transition-colors cursor-pointer ${
+                    entry.id === selectedEntry?.id
+                      ? 'border-blue-500 bg-blue-500/10'
+                      : 'border-gray-700 bg-gray-900/50 hover:bg-gray-800/50'
+                  }`}
+                >
+                  <span className="text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  <span className="text-white">{entry.request?.chainId ?? 'unparsable request'}</span>
+                  <span className={summary.color}>{summary.label}</span>
+                  <span className="text-slate-500">
+                    {entry.replayOf ? 'replay' : (entry.session?.slice(0, 8) ?? '-')}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {selectedEntry && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h4 className="text-white font-medium">Entry {selectedEntry.id}</h4>
+              <button
+                onClick={() => replay(selectedEntry)}
+                disabled={!selectedEntry.request}
+                className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+              >
+                Replay Against Current Rules
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-white text-sm font-medium">Diff</h4>
+              <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 font-mono text-sm">
+                {'errors' in selectedEntry.response ? (
+                  <pre className="text-red-400 whitespace-pre-wrap">{formatJson(selectedEntry.response.errors)}</pre>
+                ) : changes.length === 0 ? (
+                  <div className="text-gray-500 italic">Response echoes the request unchanged</div>
+                ) : (
+                  changes.map((change) => (
+                    <div key={change.path} className="space-y-1">
+                      <span className="text-blue-400">{change.path}</span>
+                      {change.kind !== 'added' && (
+                        <pre className="text-red-400 whitespace-pre-wrap ml-4">- {formatJson(change.before)}</pre>
+                      )}
+                      {change.kind !== 'removed' && (
+                        <pre className="text-green-400 whitespace-pre-wrap ml-4">+ {formatJson(change.after)}</pre>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h4 className="text-white text-sm font-medium">Request</h4>
+                <pre className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-slate-300 text-xs font-mono whitespace-pre-wrap overflow-x-auto">
+                  {formatJson(selectedEntry.request)}
+                </pre>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-white text-sm font-medium">Response</h4>
+                <pre className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-slate-300 text-xs font-mono whitespace-pre-wrap overflow-x-auto">
+                  {formatJson(selectedEntry.response)}
+                </pre>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </FeatureLayout>
+  );
+}
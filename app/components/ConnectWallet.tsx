@@ -1,11 +1,12 @@
 import { useCallback } from 'react';
 import { useWallet } from '../context/WagmiContextProvider';
-import { useConnect, useDisconnect, useAccount, useChainId } from 'wagmi';
+import { useDisconnect, useAccount, useChainId } from 'wagmi';
 import { useHydration } from '../hooks/useHydration';
+import { useConnectorPicker } from '../hooks/useConnectorPicker';
 
 export function ConnectWallet() {
   const { addLog } = useWallet();
-  const { connectors, connect: wagmiConnect, isPending: isConnecting } = useConnect();
+  const { connectors, selectedConnector, selectConnector, connect: connectWith, isConnecting } = useConnectorPicker();
   const { disconnect: wagmiDisconnect } = useDisconnect();
   const { address: connectedAddress, isConnected } = useAccount();
   const chainId = useChainId();
@@ -17,24 +18,10 @@ export function ConnectWallet() {
   const displayConnectedAddress = isHydrated ? connectedAddress : undefined;
   const currentChain = chainId ? `0x${chainId.toString(16)}` : undefined;
 
-  const connect = useCallback(async () => {
-    try {
-      if (connectors.length > 0) {
-        // Use the first connector (Coinbase Wallet by default from our config)
-        const connector = connectors[0];
-        wagmiConnect({ connector });
-        addLog({
-          type: 'message',
-          data: `Connecting with ${connector.name}...`,
-        });
-      }
-    } catch (error) {
-      addLog({
-        type: 'error',
-        data: error,
-      });
-    }
-  }, [connectors, wagmiConnect, addLog]);
+  // Uses the connector last picked here or in the header
+  const connect = useCallback(() => {
+    if (selectedConnector) connectWith(selectedConnector);
+  }, [selectedConnector, connectWith]);
 
   const disconnect = useCallback(async () => {
     try {
@@ -54,6 +41,20 @@ export function ConnectWallet() {
   return (
     <>
       <div className="flex flex-row space-x-4 self-center">
+        {connectors.length > 1 && (
+          <select
+            value={selectedConnector?.id}
+            onChange={(e) => selectConnector(e.target.value)}
+            disabled={displayIsConnecting || displayIsConnected}
+            className="px-3 py-2 rounded-md border border-slate-600 bg-slate-800 text-white"
+          >
+            {connectors.map((connector) => (
+              <option key={connector.uid} value={connector.id}>
+                {connector.name}
+              </option>
+            ))}
+          </select>
+        )}
         <button
           onClick={connect}
           disabled={displayIsConnecting || displayIsConnected}
@@ -2,13 +2,26 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { useHydration } from '../hooks/useHydration';
+import { useOperationCallsStatus, useOperationLog } from '../hooks/useOperationLog';
 import { useAccount, useWalletClient, useChainId } from 'wagmi';
 import { numberToHex, encodeFunctionData } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
 import { Button } from './ui/Button';
 import { ConnectWalletPrompt } from './ui/ConnectWalletPrompt';
 import { FeatureLayout } from './ui/FeatureLayout';
 import { Switch } from './ui/Switch';
+import { CallbackRulesPanel } from './data-callback/CallbackRulesPanel';
+import { FaucetButton } from './devnet/FaucetButton';
 import { useWallet } from '../context/WagmiContextProvider';
+import { DEFAULT_CALLBACK_PRESET, type CallbackPreset } from '../../lib/data-callback/presets';
+import {
+  CALLBACK_SECRET_HEADER,
+  getSignerAddress,
+  verifyCallbackSignature,
+  type CallbackAuth,
+} from '../../lib/data-callback/signing';
+import type { CallbackRequest } from '../../lib/data-callback/types';
+import { CHAIN_NAMES, CHAIN_TO_USDC_ADDRESS } from '../config/chains';
 
 type DataCallbackType = 'email' | 'phoneNumber' | 'physicalAddress' | 'name' | 'onchainAddress';
 
@@ -22,16 +35,6 @@ type DataCallbackCapability = {
   callbackURL?: string;
 };
 
-const CHAIN_TO_USDC_ADDRESS = {
-  8453: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base
-  84532: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia
-} as const;
-
-const CHAIN_NAMES = {
-  8453: 'Base',
-  84532: 'Base Sepolia',
-} as const;
-
 const TEST_CASES = [
   {
     id: 1,
@@ -88,6 +91,7 @@ type DataOptional = {
 
 export function DataCallback() {
   const { addLog } = useWallet();
+  const operation = useOperationLog('Data Callback Transaction');
   const { isConnected } = useAccount();
   const chainId = useChainId(); // Get current chain from global header
   const isHydrated = useHydration();
@@ -98,7 +102,7 @@ export function DataCallback() {
 
   // Check if current chain supports data callback (has USDC contract)
   const currentChainSupported = displayChainId ? displayChainId in CHAIN_TO_USDC_ADDRESS : false;
-  const currentChainName = displayChainId ? CHAIN_NAMES[displayChainId as keyof typeof CHAIN_NAMES] : 'Unknown';
+  const currentChainName = (displayChainId && CHAIN_NAMES[displayChainId]) || 'Unknown';
 
   // Data request state
   const [dataRequests, setDataRequests] = useState<DataRequest>({
@@ -120,45 +124,18 @@ export function DataCallback() {
   const [callbackEnabled, setCallbackEnabled] = useState<boolean>(false);
 
   // Enhanced callback configuration based on the comprehensive example
-  const [callbackConfig, setCallbackConfig] = useState({
-    calls: {
-      enabled: false,
-      items: [] as Array<{
-        to: string;
-        data?: string;
-        value?: string;
-      }>,
-    },
-    capabilities: {
-      enabled: false,
-      paymasterUrl: '',
-    },
-    errors: {
-      enabled: false,
-      name: {
-        firstName: '',
-        lastName: '',
-      },
-      email: '',
-      phoneNumber: {
-        countryCode: '',
-        number: '',
-      },
-      physicalAddress: {
-        address1: '',
-        address2: '',
-        city: '',
-        state: '',
-        postalCode: '',
-        country: '',
-      },
-      onchainAddress: '',
-    },
-  });
+  const [callbackConfig, setCallbackConfig] = useState<CallbackPreset>(DEFAULT_CALLBACK_PRESET);
+  const updateCallbackAuth = useCallback((changes: Partial<CallbackAuth>) => {
+    setCallbackConfig((prev) => ({ ...prev, auth: { ...prev.auth, ...changes } }));
+  }, []);
+  // Session token the callback route uses to look up the preset above, and the owner token needed to update it
+  const [callbackSession, setCallbackSession] = useState<{ session: string; ownerToken: string } | null>(null);
 
   const { data: walletClient } = useWalletClient();
   const [isPending, setIsPending] = useState(false);
   const [callsId, setCallsId] = useState<string | null>(null);
+  const [submittedCallsId, setSubmittedCallsId] = useState<string>();
+  useOperationCallsStatus(operation, submittedCallsId, 'Data callback transaction');
   const [sendCallsError, setSendCallsError] = useState<Error | null>(null);
 
   const handleLoadTestCase = useCallback(
@@ -211,6 +188,68 @@ export function DataCallback() {
     }));
   }, []);
 
+  // Register the current preset so the route can answer with the configured calls, capabilities or errors
+  const registerCallbackSession = useCallback(async () => {
+    const callbackBaseURL = `${process.env.NEXT_PUBLIC_CALLBACK_BASE_URL || window.location.origin}/api/data-callback`;
+    const sessionResponse = await fetch(`${callbackBaseURL}/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...callbackSession, preset: callbackConfig }),
+    });
+
+    if (!sessionResponse.ok) {
+      throw new Error(`Failed to register callback preset (HTTP ${sessionResponse.status})`);
+    }
+
+    const { session, ownerToken } = await sessionResponse.json();
+    setCallbackSession({ session, ownerToken });
+    return `${callbackBaseURL}?session=${encodeURIComponent(session)}`;
+  }, [callbackSession, callbackConfig]);
+
+  // Call the endpoint directly with the shared secret and check the response signature
+  const handleTestCallbackAuth = useCallback(async () => {
+    const { auth } = callbackConfig;
+
+    try {
+      const callbackURL = await registerCallbackSession();
+      const testRequest: CallbackRequest = {
+        calls: [],
+        chainId: numberToHex(displayChainId ?? 84532),
+        version: '1.0',
+        capabilities: { dataCallback: { requestedInfo: { email: 'test@playground.dev' } } },
+      };
+
+      const response = await fetch(callbackURL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(auth.secret && { [CALLBACK_SECRET_HEADER]: auth.secret }),
+        },
+        body: JSON.stringify(testRequest),
+      });
+      const body = await response.text();
+
+      addLog({
+        type: response.ok ? 'message' : 'error',
+        data: `Test callback request returned HTTP ${response.status}: ${body}`,
+      });
+
+      if (auth.signResponses) {
+        const isValid = await verifyCallbackSignature(body, response.headers, auth);
+        addLog({
+          type: isValid ? 'message' : 'error',
+          data: `Response signature (${auth.scheme}): ${isValid ? 'Valid' : 'Invalid or missing'}`,
+        });
+      }
+    } catch (error) {
+      addLog({
+        type: 'error',
+        data: `Test callback request failed: ${error instanceof Error ? error.message : String(error)}`,
+        cause: error,
+      });
+    }
+  }, [callbackConfig, registerCallbackSession, displayChainId, addLog]);
+
   const handleSubmitTransaction = useCallback(async () => {
     if (!displayIsConnected || !walletClient) {
       addLog({
@@ -245,7 +284,7 @@ export function DataCallback() {
 
     try {
       // Get the correct USDC contract address for current chain
-      const usdcAddress = CHAIN_TO_USDC_ADDRESS[displayChainId as keyof typeof CHAIN_TO_USDC_ADDRESS];
+      const usdcAddress = CHAIN_TO_USDC_ADDRESS[displayChainId];
 
       // Build requests following the documentation format exactly
       const requests: DataCallbackRequestType[] = activeRequests.map((field) => ({
@@ -254,17 +293,15 @@ export function DataCallback() {
       }));
 
       // According to docs, callback URL should be a simple endpoint
-      const callbackURL = callbackEnabled
-        ? `${process.env.NEXT_PUBLIC_CALLBACK_BASE_URL || window.location.origin}/api/data-callback`
-        : undefined;
+      const callbackURL = callbackEnabled ? await registerCallbackSession() : undefined;
 
-      addLog({
+      operation.start({
         type: 'message',
         data: `Submitting transaction on ${currentChainName} with data callback requests: ${requests.map((r) => `${r.type}${r.optional ? ' (optional)' : ''}`).join(', ')}`,
       });
 
       if (callbackEnabled && callbackURL) {
-        addLog({
+        operation.log('initiated', {
           type: 'message',
           data: `Using callback URL: ${callbackURL}`,
         });
@@ -306,7 +343,7 @@ export function DataCallback() {
         },
       ];
 
-      addLog({
+      operation.log('initiated', {
         type: 'message',
         data: `Sending wallet_sendCalls with capabilities: ${JSON.stringify(dataCallbackCapability, null, 2)}`,
       });
@@ -318,16 +355,19 @@ export function DataCallback() {
       });
 
       setCallsId(JSON.stringify(response));
-      addLog({
+      // EIP-5792 v1 wallets return the ID itself, later versions an object
+      setSubmittedCallsId(typeof response === 'string' ? response : response?.id);
+      operation.log('submitted', {
         type: 'message',
         data: `Transaction submitted successfully! Response: ${JSON.stringify(response, null, 2)}`,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       setSendCallsError(error instanceof Error ? error : new Error(errorMessage));
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `Failed to submit data callback transaction: ${errorMessage}`,
+        cause: error,
       });
     } finally {
       setIsPending(false);
@@ -338,7 +378,9 @@ export function DataCallback() {
     dataRequests,
     dataOptional,
     callbackEnabled,
+    registerCallbackSession,
     addLog,
+    operation,
     currentChainSupported,
     displayChainId,
     currentChainName,
@@ -347,18 +389,19 @@ export function DataCallback() {
   // Log transaction results
   useEffect(() => {
     if (callsId) {
-      addLog({
+      operation.log('submitted', {
         type: 'message',
         data: `Data callback transaction initiated with response: ${callsId}`,
       });
     }
-  }, [callsId, addLog]);
+  }, [callsId, operation]);
 
   useEffect(() => {
     if (sendCallsError) {
       addLog({
         type: 'error',
         data: `Data callback transaction failed: ${sendCallsError.message}`,
+        cause: sendCallsError,
       });
     }
   }, [sendCallsError, addLog]);
@@ -370,6 +413,9 @@ export function DataCallback() {
 
       {displayIsConnected && (
         <div className="space-y-8">
+          {/* Devnet Faucet */}
+          <FaucetButton />
+
           {/* Load Test Case */}
           <div className="space-y-4">
             <h3 className="text-white text-lg font-semibold">Load Test Case</h3>
@@ -704,6 +750,250 @@ export function DataCallback() {
                   )}
                 </div>
 
+                {/* Rewrite Section */}
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={callbackConfig.rewrite.enabled}
+                      onChange={(e) =>
+                        setCallbackConfig((prev) => ({
+                          ...prev,
+                          rewrite: { ...prev.rewrite, enabled: e.target.checked },
+                        }))
+                      }
+                      className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                    />
+                    <span className="text-white font-medium">Rewrite Calls</span>
+                  </div>
+
+                  {callbackConfig.rewrite.enabled && (
+                    <div className="pl-6 space-y-4">
+                      <p className="text-gray-400 text-sm">
+                        The server mutates the batch from the submitted profile data before returning it.
+                      </p>
+
+                      {/* Shipping Fee */}
+                      <div className="border border-gray-700 p-3 rounded-md space-y-2">
+                        <label className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={callbackConfig.rewrite.shippingFee.enabled}
+                            onChange={(e) =>
+                              setCallbackConfig((prev) => ({
+                                ...prev,
+                                rewrite: {
+                                  ...prev.rewrite,
+                                  shippingFee: { ...prev.rewrite.shippingFee, enabled: e.target.checked },
+                                },
+                              }))
+                            }
+                            className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                          />
+                          <span className="text-white text-sm">Add USDC shipping fee for international addresses</span>
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                          <div>
+                            <label className="block text-sm text-gray-300 mb-1">Fee (USDC):</label>
+                            <input
+                              type="text"
+                              value={callbackConfig.rewrite.shippingFee.amount}
+                              onChange={(e) =>
+                                setCallbackConfig((prev) => ({
+                                  ...prev,
+                                  rewrite: {
+                                    ...prev.rewrite,
+                                    shippingFee: { ...prev.rewrite.shippingFee, amount: e.target.value },
+                                  },
+                                }))
+                              }
+                              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm text-gray-300 mb-1">Fee Recipient:</label>
+                            <input
+                              type="text"
+                              value={callbackConfig.rewrite.shippingFee.recipient}
+                              onChange={(e) =>
+                                setCallbackConfig((prev) => ({
+                                  ...prev,
+                                  rewrite: {
+                                    ...prev.rewrite,
+                                    shippingFee: { ...prev.rewrite.shippingFee, recipient: e.target.value },
+                                  },
+                                }))
+                              }
+                              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm text-gray-300 mb-1">Domestic Country:</label>
+                            <input
+                              type="text"
+                              value={callbackConfig.rewrite.shippingFee.domesticCountry}
+                              onChange={(e) =>
+                                setCallbackConfig((prev) => ({
+                                  ...prev,
+                                  rewrite: {
+                                    ...prev.rewrite,
+                                    shippingFee: { ...prev.rewrite.shippingFee, domesticCountry: e.target.value },
+                                  },
+                                }))
+                              }
+                              placeholder="US"
+                              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+                            />
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Recipient Swap */}
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={callbackConfig.rewrite.redirectToOnchainAddress}
+                          onChange={(e) =>
+                            setCallbackConfig((prev) => ({
+                              ...prev,
+                              rewrite: { ...prev.rewrite, redirectToOnchainAddress: e.target.checked },
+                            }))
+                          }
+                          className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                        />
+                        <span className="text-white text-sm">Send transfers to the submitted onchain address</span>
+                      </label>
+
+                      {/* Sponsorship */}
+                      <div className="border border-gray-700 p-3 rounded-md space-y-2">
+                        <label className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={callbackConfig.rewrite.sponsor.enabled}
+                            onChange={(e) =>
+                              setCallbackConfig((prev) => ({
+                                ...prev,
+                                rewrite: {
+                                  ...prev.rewrite,
+                                  sponsor: { ...prev.rewrite.sponsor, enabled: e.target.checked },
+                                },
+                              }))
+                            }
+                            className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                          />
+                          <span className="text-white text-sm">Attach the playground paymaster</span>
+                        </label>
+                        <div>
+                          <label className="block text-sm text-gray-300 mb-1">Sponsor Name:</label>
+                          <input
+                            type="text"
+                            value={callbackConfig.rewrite.sponsor.name}
+                            onChange={(e) =>
+                              setCallbackConfig((prev) => ({
+                                ...prev,
+                                rewrite: {
+                                  ...prev.rewrite,
+                                  sponsor: { ...prev.rewrite.sponsor, name: e.target.value },
+                                },
+                              }))
+                            }
+                            className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Authentication Section */}
+                <div className="space-y-3">
+                  <span className="text-white font-medium">Authentication</span>
+                  <div className="pl-6 space-y-4">
+                    <div className="space-y-2">
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={callbackConfig.auth.requireSecret}
+                          onChange={(e) => updateCallbackAuth({ requireSecret: e.target.checked })}
+                          className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                        />
+                        <span className="text-white text-sm">
+                          Require <code className="font-mono">{CALLBACK_SECRET_HEADER}</code> header
+                        </span>
+                      </label>
+                      {callbackConfig.auth.requireSecret && (
+                        <div>
+                          <label className="block text-sm text-gray-300 mb-1">Shared Secret:</label>
+                          <input
+                            type="text"
+                            value={callbackConfig.auth.secret}
+                            onChange={(e) => updateCallbackAuth({ secret: e.target.value })}
+                            className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={callbackConfig.auth.signResponses}
+                          onChange={(e) => updateCallbackAuth({ signResponses: e.target.checked })}
+                          className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                        />
+                        <span className="text-white text-sm">Sign responses</span>
+                      </label>
+                      {callbackConfig.auth.signResponses && (
+                        <div className="space-y-2">
+                          <Switch
+                            checked={callbackConfig.auth.scheme === 'eip191'}
+                            onChange={(checked) =>
+                              updateCallbackAuth({ scheme: checked ? 'eip191' : 'hmac-sha256', signingKey: '' })
+                            }
+                            leftLabel="HMAC-SHA256"
+                            rightLabel="EIP-191"
+                          />
+                          <div>
+                            <label className="block text-sm text-gray-300 mb-1">
+                              {callbackConfig.auth.scheme === 'eip191' ? 'Signer Private Key:' : 'HMAC Key:'}
+                            </label>
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={callbackConfig.auth.signingKey}
+                                onChange={(e) => updateCallbackAuth({ signingKey: e.target.value })}
+                                className="flex-1 p-1 border border-gray-700 rounded bg-black text-white font-mono"
+                              />
+                              {callbackConfig.auth.scheme === 'eip191' && (
+                                <button
+                                  onClick={() => updateCallbackAuth({ signingKey: generatePrivateKey() })}
+                                  className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm"
+                                >
+                                  Generate
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          {callbackConfig.auth.scheme === 'eip191' &&
+                            getSignerAddress(callbackConfig.auth.signingKey) && (
+                              <div className="text-xs font-mono text-gray-400">
+                                Signer: {getSignerAddress(callbackConfig.auth.signingKey)}
+                              </div>
+                            )}
+                        </div>
+                      )}
+                    </div>
+
+                    <button
+                      onClick={handleTestCallbackAuth}
+                      className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm"
+                    >
+                      Send Test Request
+                    </button>
+                  </div>
+                </div>
+
                 {/* Errors Section */}
                 <div className="space-y-3">
                   <div className="flex items-center space-x-3">
@@ -963,6 +1253,9 @@ export function DataCallback() {
             )}
           </div>
 
+          {/* Callback Rules */}
+          {callbackEnabled && <CallbackRulesPanel />}
+
           {/* Submit Button */}
           <Button onClick={handleSubmitTransaction} disabled={isPending} fullWidth>
             {isPending ? 'Submitting...' : 'Submit Transaction'}
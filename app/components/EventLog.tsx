@@ -1,86 +1,100 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useState, type ChangeEvent } from 'react';
+import { useAccount } from 'wagmi';
+import { useConfig } from '../context/ConfigContext';
 import { useWallet } from '../context/WagmiContextProvider';
+import { EventLogPanel, SECONDARY_BUTTON } from './event-log/EventLogPanel';
+import { SessionViewer } from './event-log/SessionViewer';
+import { RemoteTabsPanel } from './event-log/RemoteTabsPanel';
+import { downloadFile } from '../../lib/download';
+import { redactPlaygroundConfig } from '../../lib/config/persistence';
+import {
+  SESSION_FORMAT_VERSION,
+  getSessionFilename,
+  parseSession,
+  serializeSession,
+  type EventLogSession,
+  type SessionFormat,
+} from '../../lib/event-log/session';
 
-function getEventTypeColor(type: string) {
-  switch (type) {
-    case 'connect':
-      return 'text-green-400';
-    case 'error':
-      return 'text-red-400';
-    case 'disconnect':
-      return 'text-yellow-400';
-    case 'accountsChanged':
-      return 'text-purple-400';
-    case 'chainChanged':
-      return 'text-blue-400';
-    default:
-      return 'text-white';
-  }
-}
-
-function formatEventData(data: unknown): string {
-  if (typeof data === 'string') {
-    try {
-      // Try to parse it as JSON in case it's a stringified error
-      const parsed = JSON.parse(data);
-      return JSON.stringify(parsed, null, 2);
-    } catch {
-      // If it's not JSON, return as is
-      return data;
-    }
-  }
-  return JSON.stringify(data, null, 2);
-}
+const CONTENT_TYPES: Record<SessionFormat, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
 
 export function EventLog() {
-  const { eventLogs, clearLogs } = useWallet();
-  const [isExpanded, setIsExpanded] = useState(true);
-  const terminalRef = useRef<HTMLDivElement>(null);
+  const { eventLogs, clearLogs, addLog, isMirroring, setMirroring } = useWallet();
+  const { appliedConfig } = useConfig();
+  const { address, chainId, connector } = useAccount();
+  const [imported, setImported] = useState<{ name: string; session: EventLogSession } | null>(null);
+
+  const handleExport = useCallback(
+    (format: SessionFormat) => {
+      const session: EventLogSession = {
+        metadata: {
+          version: SESSION_FORMAT_VERSION,
+          exportedAt: Date.now(),
+          config: redactPlaygroundConfig(appliedConfig), // Sessions get attached to bug reports
+          connector: connector ? { id: connector.id, name: connector.name } : null,
+          chainId: chainId ?? null,
+          address: address ?? null,
+          userAgent: navigator.userAgent,
+        },
+        events: eventLogs,
+      };
+      downloadFile(
+        getSessionFilename(session.metadata, format),
+        serializeSession(session, format),
+        CONTENT_TYPES[format],
+      );
+    },
+    [appliedConfig, connector, chainId, address, eventLogs],
+  );
 
-  useEffect(() => {
-    if (terminalRef.current) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
-    }
-  }, [eventLogs]);
+  const handleImport = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // Allow re-importing the same file
+      if (!file) return;
+
+      const session = parseSession(await file.text());
+      if (!session) {
+        addLog({ type: 'error', data: `${file.name} is not an exported Event Log session` });
+        return;
+      }
+      setImported({ name: file.name, session });
+    },
+    [addLog],
+  );
 
   return (
-    <div className="flex flex-col bg-slate-900 rounded-md overflow-hidden mt-20">
-      <div className="w-full bg-slate-800 border-b border-slate-700 py-4 flex items-center justify-between px-4">
-        <div
-          onClick={() => setIsExpanded(!isExpanded)}
-          className="flex items-center space-x-4 flex-grow cursor-pointer hover:opacity-80 transition-opacity"
-        >
-          <h2 className="text-white text-lg font-sans">Event Log</h2>
-          <span className="text-white text-lg">{isExpanded ? '▼' : '▶'}</span>
-        </div>
-        <button
-          onClick={clearLogs}
-          className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
-        >
-          Clear
-        </button>
-      </div>
-      <div className={`transition-all duration-200 ${isExpanded ? 'h-[400px]' : 'h-0'}`}>
-        <div className="h-full overflow-auto p-4 font-mono text-sm" ref={terminalRef}>
-          <div className="flex flex-col space-y-2">
-            {eventLogs.length === 0 ? (
-              <div className="text-gray-500 italic">No events yet. Try connecting your wallet...</div>
-            ) : (
-              eventLogs.map((log, i) => (
-                <div key={i} className="flex flex-col">
-                  <div className="flex items-center space-x-2">
-                    <span className={`font-mono text-sm ${getEventTypeColor(log.type)}`}>{log.type}</span>
-                    <span className="text-slate-500 text-sm">{new Date(log.timestamp).toLocaleTimeString()}</span>
-                  </div>
-                  <pre className="text-slate-300 text-sm font-mono whitespace-pre-wrap overflow-x-auto ml-4">
-                    {formatEventData(log.data)}
-                  </pre>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
-      </div>
+    <div className="mt-20 space-y-8">
+      <EventLogPanel
+        title="Event Log"
+        logs={eventLogs}
+        emptyMessage="No events yet. Try connecting your wallet..."
+        onClear={clearLogs}
+        actions={
+          <>
+            <label className={SECONDARY_BUTTON}>
+              Import
+              <input type="file" accept="application/json,.json,.ndjson" onChange={handleImport} className="hidden" />
+            </label>
+            <button onClick={() => setMirroring(!isMirroring)} className={SECONDARY_BUTTON}>
+              {isMirroring ? 'Stop Mirroring' : 'Mirror Tabs'}
+            </button>
+            <button onClick={() => handleExport('json')} className={SECONDARY_BUTTON}>
+              Export JSON
+            </button>
+            <button onClick={() => handleExport('ndjson')} className={SECONDARY_BUTTON}>
+              Export NDJSON
+            </button>
+          </>
+        }
+      />
+
+      {isMirroring && <RemoteTabsPanel />}
+
+      {imported && <SessionViewer name={imported.name} session={imported.session} onClose={() => setImported(null)} />}
     </div>
   );
 }
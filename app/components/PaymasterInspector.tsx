@@ -0,0 +1,203 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '../context/WagmiContextProvider';
+import { FeatureLayout } from './ui/FeatureLayout';
+import { Switch } from './ui/Switch';
+import type { PaymasterTrafficEntry } from '../../lib/paymaster/types';
+
+const TRAFFIC_ENDPOINT = '/api/paymaster/traffic';
+const AUTO_REFRESH_INTERVAL = 3000;
+
+function formatJson(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+function Field({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-white break-all text-right">{value ?? '-'}</span>
+    </div>
+  );
+}
+
+export function PaymasterInspector() {
+  const { addLog } = useWallet();
+  const [entries, setEntries] = useState<PaymasterTrafficEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+
+  const selectedEntry = entries.find((entry) => entry.id === selectedId) ?? entries[0];
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(TRAFFIC_ENDPOINT);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+
+      setEntries(body.entries);
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to load paymaster traffic: ${error}`, cause: error });
+    }
+  }, [addLog]);
+
+  const clear = useCallback(async () => {
+    try {
+      const response = await fetch(TRAFFIC_ENDPOINT, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      setEntries([]);
+      setSelectedId(null);
+      addLog({ type: 'message', data: 'Cleared paymaster traffic' });
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to clear paymaster traffic: ${error}`, cause: error });
+    }
+  }, [addLog]);
+
+  useEffect(() => {
+    refresh();
+    if (!autoRefresh) return;
+
+    const interval = setInterval(refresh, AUTO_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [autoRefresh, refresh]);
+
+  return (
+    <FeatureLayout showCard={false}>
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <h3 className="text-white text-lg font-semibold">Paymaster Inspector</h3>
+          <div className="flex items-center gap-4">
+            <Switch checked={autoRefresh} onChange={setAutoRefresh} rightLabel="Auto refresh" />
+            <button
+              onClick={refresh}
+              className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={clear}
+              className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-gray-500 italic">
+            No paymaster calls yet. Send a sponsored transaction from App Paymaster...
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-auto">
+            {entries.map((entry) => (
+              <button
+                key={entry.id}
+                onClick={() => setSelectedId(entry.id)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-sm font-mono transition-colors cursor-pointer ${
+                  entry.id === selectedEntry?.id
+                    ? 'border-blue-500 bg-blue-500/10'
+                    : 'border-gray-700 bg-gray-900/50 hover:bg-gray-800/50'
+                }`}
+              >
+                <span className="text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                <span className="text-white">{entry.method}</span>
+                <span className="text-slate-300">{entry.sponsor}</span>
+                <span className={entry.error ? 'text-red-400' : 'text-green-400'}>
+                  {entry.error ? `error ${entry.error.code}` : 'ok'}
+                </span>
+                <span className="text-slate-500">
+                  {entry.upstreamLatencyMs === null ? '-' : `${entry.upstreamLatencyMs}ms`}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectedEntry && (
+          <div className="space-y-6">
+            <h4 className="text-white font-medium">Entry {selectedEntry.id}</h4>
+
+            {selectedEntry.error && (
+              <div className="p-4 bg-red-900/20 rounded-2xl border border-red-800 text-red-400 text-sm font-mono">
+                {selectedEntry.error.code}: {selectedEntry.error.message}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h4 className="text-white text-sm font-medium">Request</h4>
+                <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-xs font-mono space-y-1">
+                  <Field label="Method" value={selectedEntry.method} />
+                  <Field label="Sponsor" value={selectedEntry.sponsor} />
+                  <Field label="Backend" value={selectedEntry.mode} />
+                  <Field label="Chain ID" value={selectedEntry.chainId} />
+                  <Field
+                    label="Entry point"
+                    value={selectedEntry.entryPointVersion ? `v${selectedEntry.entryPointVersion}` : 'unknown'}
+                  />
+                  <Field
+                    label="Upstream latency"
+                    value={selectedEntry.upstreamLatencyMs === null ? null : `${selectedEntry.upstreamLatencyMs}ms`}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-white text-sm font-medium">User Operation</h4>
+                <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-xs font-mono space-y-1">
+                  <Field label="Sender" value={selectedEntry.userOperation?.sender} />
+                  <Field label="Nonce" value={selectedEntry.userOperation?.nonce} />
+                  {Object.entries(selectedEntry.userOperation?.gasLimits ?? {}).map(([field, value]) => (
+                    <Field key={field} label={field} value={value} />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-white text-sm font-medium">Calls</h4>
+              <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-xs font-mono space-y-3">
+                {!selectedEntry.userOperation?.calls ? (
+                  <div className="text-gray-500 italic">callData is not an execute/executeBatch call</div>
+                ) : selectedEntry.userOperation.calls.length === 0 ? (
+                  <div className="text-gray-500 italic">No calls</div>
+                ) : (
+                  selectedEntry.userOperation.calls.map((call, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="text-blue-400">
+                        {call.functionName
+                          ? `${call.functionName}(${call.args?.join(', ')})`
+                          : (call.selector ?? 'value transfer')}
+                      </div>
+                      <div className="ml-4 text-slate-300">to {call.target}</div>
+                      <div className="ml-4 text-slate-300">value {call.value} wei</div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-white text-sm font-medium">paymasterAndData</h4>
+              <pre className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-slate-300 text-xs font-mono whitespace-pre-wrap break-all">
+                {selectedEntry.paymasterAndData ?? '-'}
+              </pre>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-white text-sm font-medium">Response</h4>
+              <pre className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 text-slate-300 text-xs font-mono whitespace-pre-wrap overflow-x-auto">
+                {formatJson(selectedEntry.error ?? selectedEntry.result)}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </FeatureLayout>
+  );
+}
@@ -2,6 +2,7 @@ import { useCallback, useState, useMemo, useEffect } from 'react';
 import { useSignMessage, useAccount, usePublicClient } from 'wagmi';
 import { useWallet } from '../context/WagmiContextProvider';
 import { useHydration } from '../hooks/useHydration';
+import { useOperationLog } from '../hooks/useOperationLog';
 import { Button } from './ui/Button';
 import { ConnectWalletPrompt } from './ui/ConnectWalletPrompt';
 import { FeatureLayout } from './ui/FeatureLayout';
@@ -10,6 +11,7 @@ import { isAddress } from 'viem';
 
 export function PersonalSign() {
   const { addLog } = useWallet();
+  const operation = useOperationLog('Personal Sign');
   const { isConnected, address } = useAccount();
   const publicClient = usePublicClient();
   const isHydrated = useHydration();
@@ -40,7 +42,7 @@ export function PersonalSign() {
       if (!signature || !address || !publicClient || !message.trim()) return;
 
       if (!isAddress(address)) {
-        addLog({
+        operation.complete('failed', {
           type: 'error',
           data: 'Invalid wallet address format',
         });
@@ -48,7 +50,7 @@ export function PersonalSign() {
       }
 
       try {
-        addLog({
+        operation.log('signed', {
           type: 'message',
           data: 'Verifying signature...',
         });
@@ -60,8 +62,8 @@ export function PersonalSign() {
           blockTag: 'latest',
         });
 
-        addLog({
-          type: 'message',
+        operation.complete(valid ? 'verified' : 'failed', {
+          type: valid ? 'message' : 'error',
           data: `Signature verification: ${valid ? 'Valid' : 'Invalid'}`,
         });
       } catch (error) {
@@ -81,35 +83,37 @@ export function PersonalSign() {
           }
         }
 
-        addLog({
+        operation.complete('failed', {
           type: 'error',
           data: `Signature verification failed: ${errorMessage}`,
+          cause: error,
         });
       }
     },
-    [address, publicClient, message, addLog],
+    [address, publicClient, message, operation],
   );
 
   // Handle signature success
   useEffect(() => {
     if (signature) {
-      addLog({
+      operation.log('signed', {
         type: 'message',
         data: `Personal sign completed: ${signature}`,
       });
       verifySignature(signature);
     }
-  }, [signature, addLog, verifySignature]);
+  }, [signature, operation, verifySignature]);
 
   // Handle signature error
   useEffect(() => {
     if (error) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `Personal sign failed: ${error.message}`,
+        cause: error,
       });
     }
-  }, [error, addLog]);
+  }, [error, operation]);
 
   // Handle personal sign with better validation
   const handlePersonalSign = useCallback(async () => {
@@ -126,7 +130,7 @@ export function PersonalSign() {
       return;
     }
 
-    addLog({
+    operation.start({
       type: 'message',
       data: `Signing message: "${messageToSign}"`,
     });
@@ -135,12 +139,13 @@ export function PersonalSign() {
       signMessage({ message: messageToSign });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `Failed to sign: ${errorMessage}`,
+        cause: error,
       });
     }
-  }, [displayIsConnected, message, signMessage, addLog]);
+  }, [displayIsConnected, message, signMessage, addLog, operation]);
 
   const buttonText = useMemo(() => {
     if (!isHydrated) return 'Loading...';
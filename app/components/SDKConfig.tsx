@@ -1,8 +1,19 @@
+import { useCallback } from 'react';
 import { useConfig } from '../context/ConfigContext';
+import { useWallet } from '../context/WagmiContextProvider';
+import { createShareUrl } from '../../lib/config/persistence';
+import { validateCoinbaseWalletOptions } from '../../lib/config/coinbaseWallet';
+import { validateConnectorSettings } from '../../lib/config/connectors';
 import { Button } from './ui/Button';
 import { FeatureLayout } from './ui/FeatureLayout';
 import { Switch } from './ui/Switch';
 import { Input } from './ui/Input';
+import { CoinbaseWalletOptionsPanel } from './config/CoinbaseWalletOptionsPanel';
+import { ConfigProfilesPanel } from './config/ConfigProfilesPanel';
+import { ConnectorsPanel } from './config/ConnectorsPanel';
+import { CustomChainsPanel } from './config/CustomChainsPanel';
+import { EnabledChainsPanel } from './config/EnabledChainsPanel';
+import { TransportOverridesPanel } from './config/TransportOverridesPanel';
 
 const KEYS_URL_SHORTCUTS = {
   'https://keys.coinbase.com': 'https://keys.coinbase.com/connect',
@@ -17,13 +28,37 @@ export function SDKConfig() {
     setStagedAppName,
     setStagedAppLogoUrl,
     setStagedKeysUrl,
+    stagedCoinbaseWallet,
+    stagedConnectors,
     applyChanges,
     hasPendingChanges,
+    appliedConfig,
   } = useConfig();
+  const { addLog } = useWallet();
+  const canApply =
+    hasPendingChanges &&
+    validateCoinbaseWalletOptions(stagedCoinbaseWallet) === null &&
+    validateConnectorSettings(stagedConnectors) === null;
+
+  // Shares what is applied, not what is staged, so the link reproduces the running environment
+  const copyShareLink = useCallback(async () => {
+    const shareUrl = createShareUrl(appliedConfig, window.location.href);
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      addLog({ type: 'message', data: `Copied share link: ${shareUrl}` });
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to copy share link: ${error}`, cause: error });
+    }
+  }, [appliedConfig, addLog]);
 
   return (
     <FeatureLayout showCard={false}>
       <div className="space-y-6 md:space-y-8">
+        {/* Profiles */}
+        <div className="border-b border-gray-800 pb-6 md:pb-8">
+          <ConfigProfilesPanel />
+        </div>
+
         <Input
           label="App Name"
           type="text"
@@ -65,9 +100,17 @@ export function SDKConfig() {
           </div>
         </div>
 
+        <ConnectorsPanel />
+
+        <CoinbaseWalletOptionsPanel />
+
+        <EnabledChainsPanel />
+
+        <TransportOverridesPanel />
+
         {/* Apply Changes Button */}
         <div className="flex flex-col items-center space-y-2">
-          <Button onClick={applyChanges} disabled={!hasPendingChanges} fullWidth>
+          <Button onClick={() => applyChanges()} disabled={!canApply} fullWidth>
             {hasPendingChanges ? 'Apply Changes' : 'No Changes to Apply'}
           </Button>
           {hasPendingChanges && (
@@ -75,6 +118,17 @@ export function SDKConfig() {
               You&apos;ll need to reconnect your wallet after applying changes
             </p>
           )}
+          <button
+            onClick={copyShareLink}
+            className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+          >
+            Copy Share Link
+          </button>
+        </div>
+
+        {/* Custom Chains */}
+        <div className="border-t border-gray-800 pt-6 md:pt-8">
+          <CustomChainsPanel />
         </div>
       </div>
     </FeatureLayout>
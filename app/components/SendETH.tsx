@@ -7,6 +7,7 @@ import { ConnectWalletPrompt } from './ui/ConnectWalletPrompt';
 import { FeatureLayout } from './ui/FeatureLayout';
 import { PillButton } from './ui/PillButton';
 import { Input } from './ui/Input';
+import { FaucetButton } from './devnet/FaucetButton';
 
 const VITALIK_ADDRESS = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' as const;
 
@@ -85,6 +86,9 @@ export function SendETH() {
 
       {displayIsConnected && (
         <div className="space-y-8">
+          {/* Devnet Faucet */}
+          <FaucetButton />
+
           {/* Balance Display */}
           <div className="text-white text-md font-semibold">
             {isHydrated ? `Balance: ${parseFloat(ethBalance).toFixed(6)} ETH` : 'Loading...'}
@@ -4,7 +4,6 @@ import {
   useWaitForTransactionReceipt,
   useChainId,
   useSwitchChain,
-  useCallsStatus,
   useSendCalls,
   useAccount,
 } from 'wagmi';
@@ -16,38 +15,33 @@ import { ConnectWalletPrompt } from './ui/ConnectWalletPrompt';
 import { FeatureLayout } from './ui/FeatureLayout';
 import { PillButton } from './ui/PillButton';
 import { Input } from './ui/Input';
+import { FaucetButton } from './devnet/FaucetButton';
 
 import { useHydration } from '../hooks/useHydration';
+import { useOperationCallsStatus, useOperationLog } from '../hooks/useOperationLog';
+import { usePaymasterChains } from '../hooks/usePaymasterChains';
+import { CHAIN_NAMES, CHAIN_TO_EXPLORER, CHAIN_TO_USDC_ADDRESS, USDC_DECIMALS } from '../config/chains';
 
 const VITALIK_ADDRESS = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' as const;
 
+const USDC_CHAIN_NAMES = Object.keys(CHAIN_TO_USDC_ADDRESS)
+  .map((chainId) => CHAIN_NAMES[Number(chainId)])
+  .join(', ');
+
 const AMOUNT_SHORTCUTS = {
   '1¢': '0.01',
   '10¢': '0.10',
   $1: '1.00',
 } as const;
 
-const CHAIN_TO_USDC_ADDRESS = {
-  8453: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base
-  84532: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia
-} as const;
-
-const CHAIN_NAMES = {
-  8453: 'Base',
-  84532: 'Base Sepolia',
-} as const;
-
-const CHAIN_TO_EXPLORER = {
-  8453: 'https://basescan.org',
-  84532: 'https://sepolia.basescan.org',
-} as const;
-
 export function SendUSDC() {
   const { addLog } = useWallet();
+  const operation = useOperationLog('Send USDC');
   const { isConnected } = useAccount();
   const currentChainId = useChainId();
   const { switchChain } = useSwitchChain();
   const isHydrated = useHydration();
+  const { isSponsoredChain } = usePaymasterChains();
 
   // WAGMI hooks for contract interaction
   const { writeContract, data: hash, isPending: isWritePending, error: writeError } = useWriteContract();
@@ -59,53 +53,62 @@ export function SendUSDC() {
   const [amount, setAmount] = useState<string>('');
   const [useSendCallsMode, setUseSendCallsMode] = useState(false); // Default to useWriteContract
   const [isSponsored, setIsSponsored] = useState(false);
-  const [targetChainId, setTargetChainId] = useState<keyof typeof CHAIN_TO_USDC_ADDRESS | null>(null);
+  const [targetChainId, setTargetChainId] = useState<number | null>(null);
 
-  // Use WAGMI callsId when available, otherwise empty string
-  const activeCallsId = wagmiCallsId?.id || '';
-  const { data: callsStatus } = useCallsStatus({ id: activeCallsId });
+  // Polls until the bundle settles and completes the operation
+  const callsStatus = useOperationCallsStatus(operation, wagmiCallsId?.id, 'USDC transfer');
 
   useEffect(() => {
-    // USDC sends can be sponsored on supported chains (Base, Base Sepolia)
-    const supportsPaymaster = [8453, 84532].includes(currentChainId);
-    setIsSponsored(supportsPaymaster);
-  }, [currentChainId]);
+    // USDC sends can be sponsored on chains with a paymaster endpoint configured
+    setIsSponsored(isSponsoredChain(currentChainId));
+  }, [currentChainId, isSponsoredChain]);
 
   useEffect(() => {
     if (writeError) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `USDC transfer failed: ${writeError.message}`,
+        cause: writeError,
       });
     }
-  }, [writeError, addLog]);
+  }, [writeError, operation]);
 
   useEffect(() => {
     if (sendCallsError) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `sendCalls failed: ${sendCallsError.message}`,
+        cause: sendCallsError,
+      });
+    }
+  }, [sendCallsError, operation]);
+
+  useEffect(() => {
+    if (hash) {
+      operation.log('submitted', {
+        type: 'message',
+        data: `USDC transfer submitted: ${hash}`,
       });
     }
-  }, [sendCallsError, addLog]);
+  }, [hash, operation]);
 
   useEffect(() => {
     if (isConfirmed && hash) {
-      addLog({
+      operation.complete('confirmed', {
         type: 'message',
         data: `USDC transfer confirmed: ${hash}`,
       });
     }
-  }, [isConfirmed, hash, addLog]);
+  }, [isConfirmed, hash, operation]);
 
   useEffect(() => {
     if (wagmiCallsId) {
-      addLog({
+      operation.log('submitted', {
         type: 'message',
         data: `sendCalls initiated with ID: ${wagmiCallsId.id}`,
       });
     }
-  }, [wagmiCallsId, addLog]);
+  }, [wagmiCallsId, operation]);
 
   // Safe display states to prevent hydration mismatch
   const displayIsConnected = isHydrated && isConnected;
@@ -113,7 +116,7 @@ export function SendUSDC() {
   const isDisabled = !amount || !toAddress || !isAddress(toAddress) || !displayIsConnected;
 
   const sendUSDCWithWagmi = useCallback(
-    async (chainId: keyof typeof CHAIN_TO_USDC_ADDRESS) => {
+    async (chainId: number) => {
       if (isDisabled) return;
 
       try {
@@ -130,7 +133,7 @@ export function SendUSDC() {
         const usdcAddress = CHAIN_TO_USDC_ADDRESS[chainId];
         setTargetChainId(chainId);
 
-        addLog({
+        operation.start({
           type: 'message',
           data: `Sending ${amount} USDC to ${toAddress} on ${CHAIN_NAMES[chainId]}`,
         });
@@ -139,21 +142,22 @@ export function SendUSDC() {
           address: usdcAddress as `0x${string}`,
           abi: erc20Abi,
           functionName: 'transfer',
-          args: [toAddress as `0x${string}`, parseUnits(amount, 6)],
+          args: [toAddress as `0x${string}`, parseUnits(amount, USDC_DECIMALS)],
         });
       } catch (error) {
-        addLog({
+        operation.complete('failed', {
           type: 'error',
           data: `Failed to send USDC: ${error}`,
+          cause: error,
         });
       }
     },
-    [isDisabled, currentChainId, switchChain, amount, toAddress, writeContract, addLog],
+    [isDisabled, currentChainId, switchChain, amount, toAddress, writeContract, addLog, operation],
   );
 
   // WAGMI-based sendCalls functionality (EIP-5792)
   const sendUSDCWithCalls = useCallback(
-    async (chainId: keyof typeof CHAIN_TO_USDC_ADDRESS) => {
+    async (chainId: number) => {
       if (isDisabled) {
         addLog({
           type: 'error',
@@ -189,11 +193,10 @@ export function SendUSDC() {
         const callData = encodeFunctionData({
           abi: erc20Abi,
           functionName: 'transfer',
-          args: [toAddress as `0x${string}`, parseUnits(amount, 6)],
+          args: [toAddress as `0x${string}`, parseUnits(amount, USDC_DECIMALS)],
         });
 
-        // Paymaster is supported on: Base (8453), Base Sepolia (84532)
-        const supportsPaymaster = [8453, 84532].includes(chainId);
+        const supportsPaymaster = isSponsoredChain(chainId);
 
         if (isSponsored && !supportsPaymaster) {
           addLog({
@@ -212,6 +215,11 @@ export function SendUSDC() {
               }
             : {};
 
+        operation.start({
+          type: 'message',
+          data: `WAGMI sendCalls initiated for USDC transfer of ${amount} to ${toAddress}${isSponsored ? ' (sponsored)' : ''}`,
+        });
+
         // Use WAGMI's useSendCalls hook instead of manual provider.request
         sendCalls({
           calls: [
@@ -222,20 +230,27 @@ export function SendUSDC() {
           ],
           capabilities,
         });
-
-        addLog({
-          type: 'message',
-          data: `WAGMI sendCalls initiated for USDC transfer`,
-        });
       } catch (error) {
         console.error('sendCalls error:', error);
-        addLog({
+        operation.complete('failed', {
           type: 'error',
           data: `sendCalls failed: ${error instanceof Error ? error.message : String(error)}`,
+          cause: error,
         });
       }
     },
-    [isDisabled, isSponsored, toAddress, amount, addLog, currentChainId, switchChain, sendCalls],
+    [
+      isDisabled,
+      isSponsored,
+      isSponsoredChain,
+      toAddress,
+      amount,
+      addLog,
+      currentChainId,
+      switchChain,
+      sendCalls,
+      operation,
+    ],
   );
 
   const sendUSDC = useSendCallsMode ? sendUSDCWithCalls : sendUSDCWithWagmi;
@@ -260,12 +275,12 @@ export function SendUSDC() {
     if (!displayCurrentChainId || !(displayCurrentChainId in CHAIN_TO_USDC_ADDRESS)) {
       addLog({
         type: 'error',
-        data: `USDC not supported on current chain (${displayCurrentChainId}). Please switch to Base or Base Sepolia.`,
+        data: `USDC not supported on current chain (${displayCurrentChainId}). Please switch to one of: ${USDC_CHAIN_NAMES}.`,
       });
       return;
     }
 
-    sendUSDC(displayCurrentChainId as keyof typeof CHAIN_TO_USDC_ADDRESS);
+    sendUSDC(displayCurrentChainId);
   }, [displayCurrentChainId, addLog, sendUSDC]);
 
   const getTransactionHash = useMemo(() => {
@@ -294,6 +309,9 @@ export function SendUSDC() {
 
       {displayIsConnected && (
         <div className="space-y-8">
+          {/* Devnet Faucet */}
+          <FaucetButton />
+
           {/* Mode Selection */}
           <div className="flex flex-col items-center space-y-4">
             <div className="flex items-center space-x-2">
@@ -350,14 +368,14 @@ export function SendUSDC() {
                     type="checkbox"
                     checked={isSponsored}
                     onChange={(e) => setIsSponsored(e.target.checked)}
-                    disabled={!displayCurrentChainId || ![8453, 84532].includes(displayCurrentChainId)}
+                    disabled={!isSponsoredChain(displayCurrentChainId)}
                     className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
                   />
                   <span className="text-white text-sm">
                     Sponsored
-                    {!displayCurrentChainId || ![8453, 84532].includes(displayCurrentChainId)
+                    {!isSponsoredChain(displayCurrentChainId)
                       ? ' (Not available)'
-                      : ' (Requires env variables)'}
+                      : ' (Uses the endpoint set under App Paymaster)'}
                   </span>
                 </label>
               )}
@@ -399,7 +417,7 @@ export function SendUSDC() {
 
           {/* Transaction Status */}
           <div className="min-h-[1.5rem] text-center">
-            {getTransactionHash && targetChainId && (
+            {getTransactionHash && targetChainId && CHAIN_TO_EXPLORER[targetChainId] && (
               <div className="flex flex-col items-center space-y-1">
                 <a
                   href={`${CHAIN_TO_EXPLORER[targetChainId]}/tx/${getTransactionHash}`}
@@ -5,6 +5,7 @@ import { useSignTypedData, useAccount, useChainId } from 'wagmi';
 import { serialize } from '@wagmi/core';
 import { useWallet } from '../context/WagmiContextProvider';
 import { useHydration } from '../hooks/useHydration';
+import { useOperationLog } from '../hooks/useOperationLog';
 import { useConfig } from '../context/ConfigContext';
 import { Switch } from './ui/Switch';
 import { Button } from './ui/Button';
@@ -148,6 +149,7 @@ const SHORTCUT_TEMPLATES = {
 
 export function SignTypedData() {
   const { addLog } = useWallet();
+  const operation = useOperationLog('Sign Typed Data');
   const { isConnected, address: connectedAddress } = useAccount();
   const isHydrated = useHydration();
   const { signTypedData, data: signature, error, isPending } = useSignTypedData();
@@ -375,6 +377,11 @@ export function SignTypedData() {
       message: messageObject,
     };
 
+    operation.start({
+      type: 'message',
+      data: `Signing ${primaryType} typed data${showAsString ? ' as a string' : ''}`,
+    });
+
     if (showAsString) {
       // Sign the JSON stringified version
       signTypedData({
@@ -389,7 +396,17 @@ export function SignTypedData() {
       // Sign the structured data
       signTypedData(typedData);
     }
-  }, [signTypedData, domain, eip712Types, primaryType, messageObject, displayIsConnected, addLog, showAsString]);
+  }, [
+    signTypedData,
+    domain,
+    eip712Types,
+    primaryType,
+    messageObject,
+    displayIsConnected,
+    addLog,
+    showAsString,
+    operation,
+  ]);
 
   // Generate JSON preview
   const jsonPreview = useMemo(() => {
@@ -432,6 +449,11 @@ export function SignTypedData() {
       const jsonToUse = jsonInput || jsonPreview;
       const parsed = JSON.parse(jsonToUse);
 
+      operation.start({
+        type: 'message',
+        data: `Signing ${parsed.primaryType ?? 'JSON'} typed data${showAsString ? ' as a string' : ''}`,
+      });
+
       if (showAsString) {
         // Sign the JSON stringified version
         signTypedData({
@@ -449,27 +471,29 @@ export function SignTypedData() {
       addLog({
         type: 'error',
         data: `Invalid JSON: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        cause: err,
       });
     }
-  }, [jsonInput, jsonPreview, signTypedData, displayIsConnected, addLog, showAsString]);
+  }, [jsonInput, jsonPreview, signTypedData, displayIsConnected, addLog, showAsString, operation]);
 
   useEffect(() => {
     if (signature) {
-      addLog({
+      operation.complete('signed', {
         type: 'message',
         data: `EIP-712 signature successful: ${signature}`,
       });
     }
-  }, [signature, addLog]);
+  }, [signature, operation]);
 
   useEffect(() => {
     if (error) {
-      addLog({
+      operation.complete('failed', {
         type: 'error',
         data: `EIP-712 signature failed: ${error.message}`,
+        cause: error,
       });
     }
-  }, [error, addLog]);
+  }, [error, operation]);
 
   return (
     <div className="h-full bg-black overflow-auto">
@@ -0,0 +1,162 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useConfig } from '../../context/ConfigContext';
+import { BUILT_IN_CHAINS } from '../../config/wagmi';
+import { PillButton } from '../ui/PillButton';
+import { toViemChain } from '../../../lib/chains/custom';
+import {
+  ATTRIBUTION_MODES,
+  WALLET_PREFERENCES,
+  validateCoinbaseWalletOptions,
+  type CoinbaseWalletOptions,
+} from '../../../lib/config/coinbaseWallet';
+
+const V3_FLAGS: {
+  key: 'darkMode' | 'headlessMode' | 'overrideIsMetaMask' | 'enableMobileWalletLink';
+  label: string;
+}[] = [
+  { key: 'darkMode', label: 'Dark mode' },
+  { key: 'headlessMode', label: 'Headless mode' },
+  { key: 'overrideIsMetaMask', label: 'Override isMetaMask' },
+  { key: 'enableMobileWalletLink', label: 'Mobile WalletLink' },
+];
+
+function OptionPills<T extends string>({
+  label,
+  values,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  values: readonly T[];
+  selected: T;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-gray-400 text-xs">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {values.map((value) => (
+          <PillButton
+            key={value}
+            onClick={() => onSelect(value)}
+            className={selected === value ? 'bg-blue-500/20' : ''}
+          >
+            {value}
+          </PillButton>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CoinbaseWalletOptionsPanel() {
+  const { customChains, stagedCoinbaseWallet: options, stagedDisabledChainIds, setStagedCoinbaseWallet } = useConfig();
+  const error = validateCoinbaseWalletOptions(options);
+
+  const enabledChains = useMemo(
+    () =>
+      [...BUILT_IN_CHAINS, ...customChains.map(toViemChain)].filter(
+        (chain) => !stagedDisabledChainIds.includes(chain.id),
+      ),
+    [customChains, stagedDisabledChainIds],
+  );
+
+  const stage = (changes: Partial<CoinbaseWalletOptions>) => setStagedCoinbaseWallet(changes);
+
+  return (
+    <div className="space-y-4">
+      <label className="text-white text-sm font-medium">Coinbase Wallet Connector</label>
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-4">
+        <OptionPills
+          label="SDK version"
+          values={['4', '3'] as const}
+          selected={options.version}
+          onSelect={(version) => stage({ version })}
+        />
+
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs">Preferred chain</p>
+          <div className="flex flex-wrap gap-2">
+            <PillButton
+              onClick={() => stage({ preferredChainId: null })}
+              className={options.preferredChainId === null ? 'bg-blue-500/20' : ''}
+            >
+              default
+            </PillButton>
+            {enabledChains.map((chain) => (
+              <PillButton
+                key={chain.id}
+                onClick={() => stage({ preferredChainId: chain.id })}
+                className={options.preferredChainId === chain.id ? 'bg-blue-500/20' : ''}
+              >
+                {chain.name}
+              </PillButton>
+            ))}
+          </div>
+        </div>
+
+        {options.version === '4' ? (
+          <>
+            <OptionPills
+              label="Wallet preference"
+              values={WALLET_PREFERENCES}
+              selected={options.preference}
+              onSelect={(preference) => stage({ preference })}
+            />
+            <OptionPills
+              label="Attribution (Smart Wallet only)"
+              values={ATTRIBUTION_MODES}
+              selected={options.attribution}
+              onSelect={(attribution) => stage({ attribution })}
+            />
+            {options.attribution === 'dataSuffix' && (
+              <div>
+                <label className="block text-sm text-gray-300 mb-1">Data suffix (16 bytes):</label>
+                <input
+                  type="text"
+                  value={options.dataSuffix}
+                  onChange={(e) => stage({ dataSuffix: e.target.value.trim() })}
+                  placeholder="0x00000000000000000000000000000000"
+                  className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+                />
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {V3_FLAGS.map(({ key, label }) => (
+                <label key={key} className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={options[key]}
+                    onChange={(e) => stage({ [key]: e.target.checked })}
+                    className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+                  />
+                  <span className="text-white text-sm">{label}</span>
+                </label>
+              ))}
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Fallback JSON-RPC URL (optional):</label>
+              <input
+                type="text"
+                value={options.jsonRpcUrl}
+                onChange={(e) => stage({ jsonRpcUrl: e.target.value.trim() })}
+                placeholder="Preferred chain's RPC"
+                className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+              />
+            </div>
+          </>
+        )}
+
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+      </div>
+      <p className="text-gray-400 text-xs">
+        Version 3 is the legacy SDK and ignores the keys URL, wallet preference and attribution.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useState, type ChangeEvent } from 'react';
+import { useConfig } from '../../context/ConfigContext';
+import { useWallet } from '../../context/WagmiContextProvider';
+import { useConfigProfiles } from '../../hooks/useConfigProfiles';
+import { usePaymasterSettings } from '../../hooks/usePaymasterSettings';
+import type { ConfigProfile } from '../../../lib/config/profiles';
+import { downloadFile } from '../../../lib/download';
+
+const SECONDARY_BUTTON =
+  'px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer';
+
+function toFilename(name: string) {
+  return `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'profile'}.json`;
+}
+
+export function ConfigProfilesPanel() {
+  const { appliedConfig, applyChanges } = useConfig();
+  const { addLog } = useWallet();
+  const { settings: paymasterSettings, updateSettings } = usePaymasterSettings();
+  const { profiles, createProfile, cloneProfile, deleteProfile, importProfiles, exportProfiles } = useConfigProfiles();
+  const [name, setName] = useState('');
+  const [includePaymaster, setIncludePaymaster] = useState(true);
+
+  // Snapshots what is applied, like share links, so a profile always reproduces a working setup
+  const handleCreate = useCallback(() => {
+    const profile = createProfile(name.trim(), appliedConfig, includePaymaster ? paymasterSettings : null);
+    setName('');
+    addLog({ type: 'message', data: `Saved config profile "${profile.name}"` });
+  }, [name, appliedConfig, includePaymaster, paymasterSettings, createProfile, addLog]);
+
+  const handleActivate = useCallback(
+    async (profile: ConfigProfile) => {
+      applyChanges(profile.config);
+
+      if (profile.paymaster) {
+        try {
+          await updateSettings(profile.paymaster);
+        } catch (error) {
+          addLog({
+            type: 'error',
+            data: `Failed to apply paymaster settings from "${profile.name}": ${error}`,
+            cause: error,
+          });
+          return;
+        }
+      }
+
+      addLog({ type: 'message', data: `Activated config profile "${profile.name}"` });
+    },
+    [applyChanges, updateSettings, addLog],
+  );
+
+  const handleImport = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow importing the same file again
+      if (!file) return;
+
+      const imported = importProfiles(await file.text());
+      if (imported.length === 0) {
+        addLog({ type: 'error', data: `No valid config profiles found in ${file.name}` });
+        return;
+      }
+      addLog({ type: 'message', data: `Imported ${imported.length} config profile(s) from ${file.name}` });
+    },
+    [importProfiles, addLog],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-white text-sm font-medium">Profiles</label>
+        <div className="flex gap-2">
+          <label className={SECONDARY_BUTTON}>
+            Import
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadFile('config-profiles.json', exportProfiles())}
+            disabled={profiles.length === 0}
+            className={`${SECONDARY_BUTTON} disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            Export All
+          </button>
+        </div>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between px-4 py-3 rounded-2xl border border-gray-700 bg-gray-900/50 text-sm"
+            >
+              <div className="font-mono min-w-0">
+                <span className="text-white">{profile.name}</span>
+                <div className="text-slate-500 text-xs truncate">
+                  {profile.config.keysUrl}
+                  {profile.paymaster && ` · paymaster ${profile.paymaster.mode}`}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleActivate(profile)}
+                  className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm"
+                >
+                  Activate
+                </button>
+                <button onClick={() => cloneProfile(profile.id)} className={SECONDARY_BUTTON}>
+                  Clone
+                </button>
+                <button
+                  onClick={() => downloadFile(toFilename(profile.name), exportProfiles([profile.id]))}
+                  className={SECONDARY_BUTTON}
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => deleteProfile(profile.id)}
+                  className="text-red-400 hover:text-red-300 text-sm px-2 cursor-pointer"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-2">
+        <label className="block text-sm text-gray-300 mb-1">Save applied config as:</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Staging keys + mock paymaster"
+          className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+        />
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={includePaymaster}
+            onChange={(e) => setIncludePaymaster(e.target.checked)}
+            disabled={!paymasterSettings}
+            className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+          />
+          <span className="text-white text-sm">Include paymaster settings</span>
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={!name.trim()}
+          className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+        >
+          Save Profile
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs">
+        Activating a profile applies it immediately, so you&apos;ll need to reconnect your wallet afterwards.
+      </p>
+    </div>
+  );
+}
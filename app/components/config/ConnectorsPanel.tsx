@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { privateKeyToAddress } from 'viem/accounts';
+import { useConfig } from '../../context/ConfigContext';
+import { CONNECTOR_KINDS, validateConnectorSettings, type ConnectorKind } from '../../../lib/config/connectors';
+import { getSimulatedWalletAccount, resetSimulatedWalletKey } from '../../../lib/simulated-wallet/keys';
+
+export function ConnectorsPanel() {
+  const { stagedConnectors: settings, setStagedConnectors } = useConfig();
+  const error = validateConnectorSettings(settings);
+
+  // Accounts are edited as text so partial addresses survive while typing
+  const [accountsText, setAccountsText] = useState(settings.mockAccounts.join('\n'));
+  const stagedAccounts = settings.mockAccounts.join('\n');
+  useEffect(() => {
+    setAccountsText(stagedAccounts);
+  }, [stagedAccounts]);
+
+  // The key is created on first read, so only touch localStorage once the simulated wallet is wanted
+  const simulatedEnabled = settings.enabled.includes('simulated');
+  const [simulatedAddress, setSimulatedAddress] = useState<string | null>(null);
+  useEffect(() => {
+    if (simulatedEnabled) setSimulatedAddress(getSimulatedWalletAccount().address);
+  }, [simulatedEnabled]);
+
+  const toggle = (kind: ConnectorKind, enabled: boolean) =>
+    setStagedConnectors({
+      enabled: enabled
+        ? CONNECTOR_KINDS.map((entry) => entry.kind).filter((k) => k === kind || settings.enabled.includes(k))
+        : settings.enabled.filter((k) => k !== kind),
+    });
+
+  return (
+    <div className="space-y-4">
+      <label className="text-white text-sm font-medium">Connectors</label>
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {CONNECTOR_KINDS.map(({ kind, label }) => (
+            <label key={kind} className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={settings.enabled.includes(kind)}
+                onChange={(e) => toggle(kind, e.target.checked)}
+                className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+              />
+              <span className="text-white text-sm">{label}</span>
+            </label>
+          ))}
+        </div>
+
+        {settings.enabled.includes('walletConnect') && (
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">WalletConnect project ID:</label>
+            <input
+              type="text"
+              value={settings.walletConnectProjectId}
+              onChange={(e) => setStagedConnectors({ walletConnectProjectId: e.target.value.trim() })}
+              placeholder="From cloud.reown.com"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+            />
+          </div>
+        )}
+
+        {settings.enabled.includes('mock') && (
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Mock accounts (one per line):</label>
+            <textarea
+              value={accountsText}
+              onChange={(e) => setAccountsText(e.target.value)}
+              onBlur={() =>
+                setStagedConnectors({
+                  mockAccounts: accountsText
+                    .split('\n')
+                    .map((account) => account.trim())
+                    .filter(Boolean),
+                })
+              }
+              rows={2}
+              className="w-full p-2 border border-gray-700 rounded bg-black text-white font-mono text-sm"
+            />
+          </div>
+        )}
+
+        {simulatedEnabled && simulatedAddress && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-xs font-mono min-w-0">
+              <span className="text-gray-300">Simulated account: </span>
+              <span className="text-white break-all">{simulatedAddress}</span>
+            </div>
+            <button
+              onClick={() => setSimulatedAddress(privateKeyToAddress(resetSimulatedWalletKey()))}
+              className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer shrink-0"
+            >
+              New Key
+            </button>
+          </div>
+        )}
+
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+      </div>
+      <p className="text-gray-400 text-xs">
+        Enabled connectors are offered by the Connect Wallet picker in the header. With injected enabled, every
+        extension announcing itself over EIP-6963 is listed separately. The simulated wallet signs with a key kept in
+        this browser, sends sponsorship and data callback requests to the endpoints you configure and broadcasts
+        nothing; reconnect after creating a new key.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useWalletClient } from 'wagmi';
+import { useConfig } from '../../context/ConfigContext';
+import { useWallet } from '../../context/WagmiContextProvider';
+import { toAddEthereumChainParameter, validateCustomChain, type CustomChain } from '../../../lib/chains/custom';
+
+const EMPTY_FORM = {
+  id: '',
+  name: '',
+  rpcUrl: '',
+  currencyName: 'Ether',
+  currencySymbol: 'ETH',
+  currencyDecimals: '18',
+  explorerUrl: '',
+  testnet: true,
+};
+
+function parseChainId(value: string) {
+  return value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+}
+
+export function CustomChainsPanel() {
+  const { customChains, saveCustomChain, removeCustomChain } = useConfig();
+  const { addLog } = useWallet();
+  const { data: walletClient } = useWalletClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateForm = (changes: Partial<typeof EMPTY_FORM>) => setForm((current) => ({ ...current, ...changes }));
+
+  const handleSave = useCallback(() => {
+    const chain: CustomChain = {
+      id: parseChainId(form.id.trim()),
+      name: form.name.trim(),
+      rpcUrl: form.rpcUrl.trim(),
+      nativeCurrency: {
+        name: form.currencyName.trim() || form.currencySymbol.trim(),
+        symbol: form.currencySymbol.trim(),
+        decimals: Number(form.currencyDecimals),
+      },
+      ...(form.explorerUrl.trim() && { explorerUrl: form.explorerUrl.trim() }),
+      testnet: form.testnet,
+    };
+
+    const validationError = validateCustomChain(chain);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    saveCustomChain(chain);
+    setForm(EMPTY_FORM);
+    setError(null);
+    addLog({ type: 'message', data: `Added custom chain ${chain.name} (${chain.id})` });
+  }, [form, saveCustomChain, addLog]);
+
+  const handleAddToWallet = useCallback(
+    async (chain: CustomChain) => {
+      if (!walletClient) return;
+
+      try {
+        await walletClient.request({
+          method: 'wallet_addEthereumChain',
+          params: [toAddEthereumChainParameter(chain)],
+        });
+        addLog({ type: 'message', data: `Wallet added chain ${chain.name} (${chain.id})` });
+      } catch (error) {
+        addLog({ type: 'error', data: `wallet_addEthereumChain failed: ${error}`, cause: error });
+      }
+    },
+    [walletClient, addLog],
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="text-white text-sm font-medium">Custom Chains</label>
+
+      {customChains.length > 0 && (
+        <div className="space-y-2">
+          {customChains.map((chain) => (
+            <div
+              key={chain.id}
+              className="flex items-center justify-between px-4 py-3 rounded-2xl border border-gray-700 bg-gray-900/50 text-sm"
+            >
+              <div className="font-mono">
+                <span className="text-white">{chain.name}</span>
+                <span className="text-slate-400"> ({chain.id})</span>
+                <div className="text-slate-500 text-xs">{chain.rpcUrl}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleAddToWallet(chain)}
+                  disabled={!walletClient}
+                  title={walletClient ? undefined : 'Connect a wallet first'}
+                  className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add to Wallet
+                </button>
+                <button
+                  onClick={() => removeCustomChain(chain.id)}
+                  className="text-red-400 hover:text-red-300 text-sm px-2 cursor-pointer"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Name:</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="My Devnet"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Chain ID:</label>
+            <input
+              type="text"
+              value={form.id}
+              onChange={(e) => updateForm({ id: e.target.value })}
+              placeholder="0x... or decimal"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">RPC URL:</label>
+            <input
+              type="text"
+              value={form.rpcUrl}
+              onChange={(e) => updateForm({ rpcUrl: e.target.value })}
+              placeholder="http://localhost:8545"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Explorer URL (optional):</label>
+            <input
+              type="text"
+              value={form.explorerUrl}
+              onChange={(e) => updateForm({ explorerUrl: e.target.value })}
+              placeholder="https://explorer.example.com"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Currency name:</label>
+            <input
+              type="text"
+              value={form.currencyName}
+              onChange={(e) => updateForm({ currencyName: e.target.value })}
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Symbol:</label>
+            <input
+              type="text"
+              value={form.currencySymbol}
+              onChange={(e) => updateForm({ currencySymbol: e.target.value })}
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Decimals:</label>
+            <input
+              type="number"
+              value={form.currencyDecimals}
+              onChange={(e) => updateForm({ currencyDecimals: e.target.value })}
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+            />
+          </div>
+        </div>
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={form.testnet}
+            onChange={(e) => updateForm({ testnet: e.target.checked })}
+            className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+          />
+          <span className="text-white text-sm">Testnet</span>
+        </label>
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+        <button onClick={handleSave} className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm">
+          Add Chain
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs">
+        Custom chains are saved in this browser and added to the wagmi config right away, so you&apos;ll need to
+        reconnect your wallet afterwards.
+      </p>
+    </div>
+  );
+}
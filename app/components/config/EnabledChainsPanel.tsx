@@ -0,0 +1,40 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useConfig } from '../../context/ConfigContext';
+import { BUILT_IN_CHAINS } from '../../config/wagmi';
+import { toViemChain } from '../../../lib/chains/custom';
+
+export function EnabledChainsPanel() {
+  const { customChains, stagedDisabledChainIds, setStagedChainEnabled } = useConfig();
+
+  // useChains only returns enabled chains, so list everything the config could include
+  const allChains = useMemo(() => [...BUILT_IN_CHAINS, ...customChains.map(toViemChain)], [customChains]);
+  const enabledCount = allChains.filter((chain) => !stagedDisabledChainIds.includes(chain.id)).length;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-white text-sm font-medium">Enabled Chains</label>
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {allChains.map((chain) => {
+          const enabled = !stagedDisabledChainIds.includes(chain.id);
+          return (
+            <label key={chain.id} className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={enabled}
+                // Keep at least one chain, wagmi can't be configured without one
+                disabled={enabled && enabledCount === 1}
+                onChange={(e) => setStagedChainEnabled(chain.id, e.target.checked)}
+                className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+              />
+              <span className="text-white text-sm">
+                {chain.name} <span className="text-slate-400 font-mono">({chain.id})</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
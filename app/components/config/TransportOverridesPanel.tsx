@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useChains } from 'wagmi';
+import type { Chain } from 'viem';
+import { useConfig } from '../../context/ConfigContext';
+import { useRpcStats } from '../../hooks/useRpcStats';
+import { resetRpcStats, type ChainRpcStats } from '../../config/rpcStats';
+import {
+  DEFAULT_TRANSPORT_OVERRIDE,
+  validateTransportOverride,
+  type TransportOverride,
+} from '../../../lib/chains/transports';
+
+type ChainTransportProps = {
+  chain: Chain;
+  override: TransportOverride;
+  stats: ChainRpcStats | undefined;
+  onChange: (override: TransportOverride) => void;
+};
+
+function formatErrorRate(requests: number, errors: number) {
+  return requests === 0 ? '-' : `${((errors / requests) * 100).toFixed(1)}%`;
+}
+
+function ChainTransport({ chain, override, stats, onChange }: ChainTransportProps) {
+  // URLs are edited as text and only staged on blur so blank lines survive while typing
+  const [urlsText, setUrlsText] = useState(override.urls.join('\n'));
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-sync when the staged URLs change elsewhere (e.g. a loaded share link)
+  const stagedUrls = override.urls.join('\n');
+  useEffect(() => {
+    setUrlsText(stagedUrls);
+  }, [stagedUrls]);
+
+  const stage = (changes: Partial<TransportOverride>) => {
+    const next = { ...override, ...changes };
+    const validationError = validateTransportOverride(next);
+    setError(validationError);
+    if (!validationError) onChange(next);
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-3">
+      <div className="text-white text-sm font-medium">
+        {chain.name} <span className="text-slate-400 font-mono">({chain.id})</span>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-300 mb-1">RPC URLs (one per line, tried in order):</label>
+        <textarea
+          value={urlsText}
+          onChange={(e) => setUrlsText(e.target.value)}
+          onBlur={() =>
+            stage({
+              urls: urlsText
+                .split('\n')
+                .map((url) => url.trim())
+                .filter(Boolean),
+            })
+          }
+          placeholder={chain.rpcUrls.default.http[0]}
+          rows={2}
+          className="w-full p-2 border border-gray-700 rounded bg-black text-white font-mono text-sm"
+        />
+      </div>
+
+      <div className="flex items-center gap-6">
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={override.batch}
+            onChange={(e) => stage({ batch: e.target.checked })}
+            className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+          />
+          <span className="text-white text-sm">Batch JSON-RPC</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-sm text-gray-300">Polling interval (ms):</span>
+          <input
+            type="number"
+            value={override.pollingInterval ?? ''}
+            onChange={(e) => stage({ pollingInterval: e.target.value ? Number(e.target.value) : null })}
+            placeholder="Default"
+            className="w-24 p-1 border border-gray-700 rounded bg-black text-white"
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+
+      {stats && (
+        <div className="text-xs font-mono space-y-1">
+          {Object.entries(stats.endpoints).map(([url, endpoint]) => (
+            <div key={url} className="grid grid-cols-[1fr_auto_auto_auto] gap-4">
+              <span className={url === stats.activeUrl ? 'text-green-400 truncate' : 'text-slate-400 truncate'}>
+                {url === stats.activeUrl ? '● ' : ''}
+                {url}
+              </span>
+              <span className="text-slate-300">{Math.round(endpoint.totalLatencyMs / endpoint.requests)}ms avg</span>
+              <span className="text-slate-300">{endpoint.lastLatencyMs}ms last</span>
+              <span className={endpoint.errors > 0 ? 'text-red-400' : 'text-slate-300'}>
+                {formatErrorRate(endpoint.requests, endpoint.errors)} errors ({endpoint.requests} req)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TransportOverridesPanel() {
+  const chains = useChains();
+  const { stagedTransportOverrides, setStagedTransportOverride } = useConfig();
+  const rpcStats = useRpcStats();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-white text-sm font-medium">RPC Transports</label>
+        <button
+          onClick={resetRpcStats}
+          className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+        >
+          Reset Stats
+        </button>
+      </div>
+      {chains.map((chain) => (
+        <ChainTransport
+          key={chain.id}
+          chain={chain}
+          override={stagedTransportOverrides[chain.id] ?? DEFAULT_TRANSPORT_OVERRIDE}
+          stats={rpcStats[chain.id]}
+          onChange={(override) => setStagedTransportOverride(chain.id, override)}
+        />
+      ))}
+      <p className="text-gray-400 text-xs">
+        Transport changes take effect after applying. The green endpoint served the most recent request.
+      </p>
+    </div>
+  );
+}
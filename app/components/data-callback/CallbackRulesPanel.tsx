@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '../../context/WagmiContextProvider';
+import { parseRuleSet, RULE_FIELDS, type CallbackRuleSet } from '../../../lib/data-callback/rules';
+
+const RULES_ENDPOINT = '/api/data-callback/rules';
+
+function formatRuleSet(ruleSet: CallbackRuleSet) {
+  return JSON.stringify(ruleSet, null, 2);
+}
+
+export function CallbackRulesPanel() {
+  const { addLog } = useWallet();
+  const [rulesJson, setRulesJson] = useState('');
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requestRules = useCallback(async (init?: RequestInit) => {
+    const response = await fetch(RULES_ENDPOINT, init);
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.error || `HTTP ${response.status}`);
+    }
+    return body as CallbackRuleSet;
+  }, []);
+
+  const handleLoad = useCallback(async () => {
+    try {
+      const ruleSet = await requestRules();
+      setRulesJson(formatRuleSet(ruleSet));
+      setRulesError(null);
+      addLog({ type: 'message', data: `Loaded callback rules "${ruleSet.name}" (${ruleSet.rules.length} rules)` });
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to load callback rules: ${error}`, cause: error });
+    }
+  }, [requestRules, addLog]);
+
+  const handleSave = useCallback(async () => {
+    let ruleSet: CallbackRuleSet;
+    try {
+      ruleSet = parseRuleSet(JSON.parse(rulesJson));
+    } catch (error) {
+      setRulesError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await requestRules({
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleSet),
+      });
+      setRulesJson(formatRuleSet(saved));
+      setRulesError(null);
+      addLog({ type: 'message', data: `Activated callback rules "${saved.name}" (${saved.rules.length} rules)` });
+    } catch (error) {
+      setRulesError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [rulesJson, requestRules, addLog]);
+
+  const handleReset = useCallback(async () => {
+    try {
+      const ruleSet = await requestRules({ method: 'DELETE' });
+      setRulesJson(formatRuleSet(ruleSet));
+      setRulesError(null);
+      addLog({ type: 'message', data: 'Reset callback rules to defaults' });
+    } catch (error) {
+      addLog({ type: 'error', data: `Failed to reset callback rules: ${error}`, cause: error });
+    }
+  }, [requestRules, addLog]);
+
+  // Start from whatever the server currently enforces
+  useEffect(() => {
+    requestRules()
+      .then((ruleSet) => setRulesJson(formatRuleSet(ruleSet)))
+      .catch(() => setRulesError('Could not load the active rules'));
+  }, [requestRules]);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-white text-lg font-semibold">Callback Rules</h3>
+      <p className="text-gray-400 text-sm">
+        Rules the callback endpoint evaluates when no error preset is set. Types: regex, minLength, maxLength,
+        allowList, denyList, postalCode, phoneNumber. Fields: {RULE_FIELDS.join(', ')}.
+      </p>
+
+      <textarea
+        value={rulesJson}
+        onChange={(e) => {
+          setRulesJson(e.target.value);
+          setRulesError(null);
+        }}
+        spellCheck={false}
+        className="w-full h-64 p-4 bg-black border border-gray-700 rounded-2xl text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+      />
+      {rulesError && <span className="text-red-400 text-xs">{rulesError}</span>}
+
+      <div className="flex gap-2">
+        <button onClick={handleLoad} className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm">
+          Load Active
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !rulesJson}
+          className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save & Activate'}
+        </button>
+        <button onClick={handleReset} className="border border-gray-400 text-gray-400 px-3 py-1 rounded-md text-sm">
+          Reset Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
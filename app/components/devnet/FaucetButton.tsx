@@ -0,0 +1,67 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { useWallet } from '../../context/WagmiContextProvider';
+import { useHydration } from '../../hooks/useHydration';
+import { LOCAL_DEVNET_CHAIN_ID } from '../../config/chains';
+
+/**
+ * Funds the connected account from /api/faucet.
+ * Only rendered while connected to the local devnet.
+ */
+export function FaucetButton() {
+  const { addLog } = useWallet();
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const isHydrated = useHydration();
+  const [isFunding, setIsFunding] = useState(false);
+
+  const requestFunds = useCallback(async () => {
+    if (!address) return;
+
+    setIsFunding(true);
+    addLog({ type: 'message', data: `Requesting devnet funds for ${address}` });
+    try {
+      const response = await fetch('/api/faucet', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address }),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+
+      addLog({
+        type: 'message',
+        data: `Faucet sent ${body.ethAmount} ETH (${body.ethTxHash})${
+          body.usdcTxHash ? ` and minted ${body.usdcAmount} USDC (${body.usdcTxHash})` : ''
+        }`,
+      });
+    } catch (error) {
+      addLog({
+        type: 'error',
+        data: `Faucet request failed: ${error instanceof Error ? error.message : error}`,
+        cause: error,
+      });
+    } finally {
+      setIsFunding(false);
+    }
+  }, [address, addLog]);
+
+  if (!isHydrated || !isConnected || chainId !== LOCAL_DEVNET_CHAIN_ID) return null;
+
+  return (
+    <div className="flex justify-center">
+      <button
+        onClick={requestFunds}
+        disabled={isFunding}
+        className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isFunding ? 'Funding...' : 'Fund from Devnet Faucet'}
+      </button>
+    </div>
+  );
+}
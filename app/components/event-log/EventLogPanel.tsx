@@ -0,0 +1,362 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { Pin } from 'lucide-react';
+import type { EventLog as EventLogEntry } from '../../context/WagmiContextProvider';
+import type { ProviderRequestTrace } from '../../config/providerTrace';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { OperationTimeline } from './OperationTimeline';
+import type { ErrorClassification } from '../../../lib/errors/classify';
+import {
+  DEFAULT_EVENT_LOG_FILTERS,
+  EVENT_LOG_TYPES,
+  TIME_RANGES,
+  filterEventLogs,
+  hasActiveFilters,
+  type EventLogFilters,
+} from '../../../lib/event-log/filters';
+
+export const SECONDARY_BUTTON =
+  'px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer';
+
+// Height of a collapsed single-line entry, used until a row has been measured
+const ESTIMATED_ROW_HEIGHT = 48;
+
+function getEventTypeColor(type: string) {
+  switch (type) {
+    case 'connect':
+      return 'text-green-400';
+    case 'error':
+      return 'text-red-400';
+    case 'disconnect':
+      return 'text-yellow-400';
+    case 'accountsChanged':
+      return 'text-purple-400';
+    case 'chainChanged':
+      return 'text-blue-400';
+    case 'request':
+      return 'text-cyan-400';
+    default:
+      return 'text-white';
+  }
+}
+
+function formatEventData(data: unknown): string {
+  if (typeof data === 'string') {
+    try {
+      // Try to parse it as JSON in case it's a stringified error
+      const parsed = JSON.parse(data);
+      return JSON.stringify(parsed, null, 2);
+    } catch {
+      // If it's not JSON, return as is
+      return data;
+    }
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+// Collapsed to a one-line summary; expanding shows the params and the result or error
+function RequestDetails({ trace, isOpen }: { trace: ProviderRequestTrace; isOpen: boolean }) {
+  return (
+    <>
+      <span className="text-white text-sm">{trace.method}</span>
+      <span className={trace.error ? 'text-red-400 text-sm' : 'text-green-400 text-sm'}>
+        {trace.error ? `error${trace.error.code !== undefined ? ` ${trace.error.code}` : ''}` : 'ok'}
+      </span>
+      <span className="text-slate-500 text-sm">
+        {trace.durationMs}ms via {trace.connector}
+      </span>
+      {isOpen && (
+        <div className="basis-full ml-4 space-y-1">
+          <div className="text-slate-400 text-xs">Request</div>
+          <pre className="text-slate-300 text-sm font-mono whitespace-pre-wrap overflow-x-auto">
+            {formatEventData({ method: trace.method, params: trace.params })}
+          </pre>
+          <div className="text-slate-400 text-xs">{trace.error ? 'Error' : 'Response'}</div>
+          <pre
+            className={`text-sm font-mono whitespace-pre-wrap overflow-x-auto ${trace.error ? 'text-red-300' : 'text-slate-300'}`}
+          >
+            {formatEventData(trace.error ?? trace.result ?? null)}
+          </pre>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Decoded category, explanation and remediation for an error entry or failed request
+function ErrorDetails({ error }: { error: ErrorClassification }) {
+  return (
+    <div className="ml-4 mt-1 mb-1 px-2 py-1 border-l-2 border-red-500/60 text-xs space-y-0.5">
+      <div className="flex flex-wrap gap-x-2">
+        <span className="text-red-300 font-medium">{error.title}</span>
+        {error.code !== undefined && <span className="text-slate-500 font-mono">code {error.code}</span>}
+        {error.errorName && <span className="text-slate-500 font-mono">{error.errorName}</span>}
+      </div>
+      <div className="text-slate-400">{error.explanation}</div>
+      <div className="text-slate-400">
+        <span className="text-slate-500">Try: </span>
+        {error.remediation}
+      </div>
+    </div>
+  );
+}
+
+type LogEntryProps = {
+  log: EventLogEntry;
+  isPinned: boolean;
+  isOpen: boolean;
+  onTogglePin: () => void;
+  onToggleOpen: () => void;
+};
+
+function LogEntry({ log, isPinned, isOpen, onTogglePin, onToggleOpen }: LogEntryProps) {
+  const isRequest = log.type === 'request';
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex flex-wrap items-center gap-x-2">
+        <button
+          onClick={onTogglePin}
+          title={isPinned ? 'Unpin' : 'Pin'}
+          className={`cursor-pointer ${isPinned ? 'text-yellow-400' : 'text-slate-600 hover:text-slate-300'}`}
+        >
+          <Pin className="w-3 h-3" />
+        </button>
+        {isRequest && (
+          <span onClick={onToggleOpen} className="text-slate-500 text-sm cursor-pointer">
+            {isOpen ? '▼' : '▶'}
+          </span>
+        )}
+        <span className={`font-mono text-sm ${getEventTypeColor(log.type)}`}>{log.type}</span>
+        {log.source && <span className="text-slate-500 text-xs">[{log.source}]</span>}
+        {log.tab && <span className="px-1.5 rounded bg-slate-700 text-slate-300 text-xs">{log.tab}</span>}
+        <span className="text-slate-500 text-sm">{new Date(log.timestamp).toLocaleTimeString()}</span>
+        {isRequest && <RequestDetails trace={log.data as ProviderRequestTrace} isOpen={isOpen} />}
+      </div>
+      {!isRequest && (
+        <pre className="text-slate-300 text-sm font-mono whitespace-pre-wrap overflow-x-auto ml-4">
+          {formatEventData(log.data)}
+        </pre>
+      )}
+      {log.error && log.error.category !== 'unknown' && <ErrorDetails error={log.error} />}
+    </div>
+  );
+}
+
+function FilterToggle({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-full border text-xs cursor-pointer transition-colors ${
+        selected ? 'border-blue-400 text-blue-400 bg-blue-500/20' : 'border-slate-600 text-slate-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function toggleId(ids: Set<number>, id: number) {
+  const next = new Set(ids);
+  if (!next.delete(id)) next.add(id);
+  return next;
+}
+
+type EventLogPanelProps = {
+  title: string;
+  logs: EventLogEntry[];
+  emptyMessage: string;
+  actions?: ReactNode; // Header buttons, next to Clear
+  onClear?: () => void; // Omitted for read-only logs
+  anchorTime?: number; // Time ranges count back from here instead of from now, e.g. for a saved session
+};
+
+/**
+ * Collapsible, filterable and virtualized view of a list of log entries.
+ */
+export function EventLogPanel({ title, logs, emptyMessage, actions, onClear, anchorTime }: EventLogPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [view, setView] = useState<'events' | 'timeline'>('events');
+  const [filters, setFilters] = useState<EventLogFilters>(DEFAULT_EVENT_LOG_FILTERS);
+  const [pinnedIds, setPinnedIds] = useState<Set<number>>(new Set());
+  const [openIds, setOpenIds] = useState<Set<number>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep a time range sliding while it is selected
+  useEffect(() => {
+    if (filters.sinceMs === null || anchorTime !== undefined) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [filters.sinceMs, anchorTime]);
+
+  const visibleLogs = useMemo(
+    () => filterEventLogs(logs, filters, anchorTime ?? now),
+    [logs, filters, anchorTime, now],
+  );
+  const pinnedLogs = useMemo(() => logs.filter((log) => pinnedIds.has(log.id)), [logs, pinnedIds]);
+  const routes = useMemo(() => [...new Set(logs.flatMap((log) => (log.route ? [log.route] : [])))].sort(), [logs]);
+
+  const getKey = useCallback((index: number) => visibleLogs[index].id, [visibleLogs]);
+  const { containerRef, onScroll, measureRow, indexes, paddingTop, paddingBottom, totalHeight } = useVirtualList({
+    count: visibleLogs.length,
+    getKey,
+    estimateHeight: ESTIMATED_ROW_HEIGHT,
+  });
+
+  // Follow new entries unless the user has scrolled up to read something
+  const isFollowing = useRef(true);
+  const handleScroll = () => {
+    onScroll();
+    const container = containerRef.current;
+    if (container) {
+      isFollowing.current =
+        container.scrollHeight - container.scrollTop - container.clientHeight < ESTIMATED_ROW_HEIGHT;
+    }
+  };
+
+  useEffect(() => {
+    if (isFollowing.current && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [containerRef, visibleLogs, totalHeight]);
+
+  const updateFilters = (changes: Partial<EventLogFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  const handleClear = () => {
+    onClear?.();
+    setPinnedIds(new Set());
+    setOpenIds(new Set());
+  };
+
+  const renderEntry = (log: EventLogEntry) => (
+    <LogEntry
+      log={log}
+      isPinned={pinnedIds.has(log.id)}
+      isOpen={openIds.has(log.id)}
+      onTogglePin={() => setPinnedIds((ids) => toggleId(ids, log.id))}
+      onToggleOpen={() => setOpenIds((ids) => toggleId(ids, log.id))}
+    />
+  );
+
+  return (
+    <div className="flex flex-col bg-slate-900 rounded-md overflow-hidden">
+      <div className="w-full bg-slate-800 border-b border-slate-700 py-4 flex items-center justify-between px-4">
+        <div
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center space-x-4 flex-grow cursor-pointer hover:opacity-80 transition-opacity"
+        >
+          <h2 className="text-white text-lg font-sans">{title}</h2>
+          <span className="text-white text-lg">{isExpanded ? '▼' : '▶'}</span>
+          {hasActiveFilters(filters) && (
+            <span className="text-slate-400 text-sm">
+              {visibleLogs.length} of {logs.length}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {actions}
+          {onClear && (
+            <button onClick={handleClear} className={SECONDARY_BUTTON}>
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      {isExpanded && (
+        <div className="border-b border-slate-700 p-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              placeholder="Search events..."
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white text-sm"
+            />
+            <select
+              value={filters.route ?? ''}
+              onChange={(e) => updateFilters({ route: e.target.value || null })}
+              className="p-1 border border-gray-700 rounded bg-black text-white text-sm"
+            >
+              <option value="">All features</option>
+              {routes.map((route) => (
+                <option key={route} value={route}>
+                  {route}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.sinceMs ?? ''}
+              onChange={(e) => updateFilters({ sinceMs: e.target.value ? Number(e.target.value) : null })}
+              className="p-1 border border-gray-700 rounded bg-black text-white text-sm"
+            >
+              {TIME_RANGES.map((range) => (
+                <option key={range.label} value={range.sinceMs ?? ''}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <FilterToggle label="Events" selected={view === 'events'} onClick={() => setView('events')} />
+            <FilterToggle label="Timeline" selected={view === 'timeline'} onClick={() => setView('timeline')} />
+            <span className="text-slate-600">|</span>
+            {EVENT_LOG_TYPES.map((type) => (
+              <FilterToggle
+                key={type}
+                label={type}
+                selected={filters.types.includes(type)}
+                onClick={() =>
+                  updateFilters({
+                    types: filters.types.includes(type)
+                      ? filters.types.filter((selected) => selected !== type)
+                      : [...filters.types, type],
+                  })
+                }
+              />
+            ))}
+            {hasActiveFilters(filters) && (
+              <button
+                onClick={() => setFilters(DEFAULT_EVENT_LOG_FILTERS)}
+                className="text-slate-400 hover:text-white text-xs cursor-pointer"
+              >
+                Reset filters
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {isExpanded && pinnedLogs.length > 0 && (
+        <div className="border-b border-slate-700 p-4 max-h-48 overflow-auto font-mono text-sm space-y-2">
+          <div className="text-slate-400 text-xs font-sans">Pinned</div>
+          {pinnedLogs.map((log) => (
+            <div key={log.id}>{renderEntry(log)}</div>
+          ))}
+        </div>
+      )}
+      <div className={`transition-all duration-200 ${isExpanded ? 'h-[400px]' : 'h-0'}`}>
+        <div className="h-full overflow-auto p-4 font-mono text-sm" ref={containerRef} onScroll={handleScroll}>
+          {logs.length === 0 ? (
+            <div className="text-gray-500 italic">{emptyMessage}</div>
+          ) : visibleLogs.length === 0 ? (
+            <div className="text-gray-500 italic">No events match the current filters.</div>
+          ) : view === 'timeline' ? (
+            <OperationTimeline logs={visibleLogs} />
+          ) : (
+            <div style={{ paddingTop, paddingBottom }}>
+              {indexes.map((index) => {
+                const log = visibleLogs[index];
+                return (
+                  <div key={log.id} ref={measureRow} data-virtual-key={log.id} className="pb-2">
+                    {renderEntry(log)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { EventLog as EventLogEntry } from '../../context/WagmiContextProvider';
+import type { ProviderRequestTrace } from '../../config/providerTrace';
+import { groupOperations, type OperationTimeline as Timeline } from '../../../lib/event-log/operations';
+
+const STATUS_COLORS: Record<Timeline['status'], string> = {
+  pending: 'text-yellow-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function summarize(entries: EventLogEntry[]) {
+  const [entry] = entries;
+  if (entry.type === 'request') {
+    const trace = entry.data as ProviderRequestTrace;
+    const failed = entries.some((request) => (request.data as ProviderRequestTrace).error);
+    return `${trace.method}${entries.length > 1 ? ` ×${entries.length}` : ''} ${failed ? 'error' : 'ok'}`;
+  }
+
+  const text = typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+/**
+ * One row per operation stage, from the user's click through to the receipt or verification.
+ */
+export function OperationTimeline({ logs }: { logs: EventLogEntry[] }) {
+  const operations = useMemo(() => groupOperations(logs), [logs]);
+
+  if (operations.length === 0) {
+    return <div className="text-gray-500 italic">No operations yet. Send, sign or sponsor something...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {operations.map((operation) => (
+        <div key={operation.id} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-white">{operation.name}</span>
+            <span className={STATUS_COLORS[operation.status]}>{operation.status}</span>
+            <span className="text-slate-500">
+              {new Date(operation.startedAt).toLocaleTimeString()} · {formatDuration(operation.durationMs)} ·{' '}
+              {operation.id}
+            </span>
+          </div>
+          {operation.stages.map((stage) => (
+            <div key={stage.entries[0].id} className="grid grid-cols-[5rem_6rem_1fr_4rem] gap-2 ml-4">
+              <span className="text-slate-500 text-right">+{formatDuration(stage.offsetMs)}</span>
+              <span className={stage.stage === 'failed' ? 'text-red-400' : 'text-cyan-400'}>{stage.stage}</span>
+              <span className="text-slate-300 truncate">{summarize(stage.entries)}</span>
+              <span className="text-slate-500 text-right">{formatDuration(stage.durationMs)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CHAIN_NAMES } from '../../config/chains';
+import { useWallet } from '../../context/WagmiContextProvider';
+import type { TabState } from '../../../lib/event-log/mirror';
+import { EventLogPanel } from './EventLogPanel';
+
+function TabSummary({ tab, note }: { tab: TabState; note: string }) {
+  return (
+    <div className="text-slate-400">
+      <span className="text-white font-sans">{tab.label}</span> <span className="text-slate-500">{note}</span>
+      <div className="ml-4">
+        {tab.route ?? '/'} ·{' '}
+        {tab.connector
+          ? `${tab.connector} on ${tab.chainId === null ? 'no chain' : (CHAIN_NAMES[tab.chainId] ?? tab.chainId)}`
+          : 'not connected'}
+        {tab.address && <span className="text-slate-300"> · {tab.address}</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * This tab's entries merged with those mirrored from other tabs, each labelled
+ * with the tab that logged it.
+ */
+export function RemoteTabsPanel() {
+  const { eventLogs, remoteLogs, remoteTabs, tab, clearRemoteLogs } = useWallet();
+
+  const mergedLogs = useMemo(
+    () =>
+      [...eventLogs.map((log) => ({ ...log, tab: `${tab.label} (this tab)` })), ...remoteLogs].sort(
+        (a, b) => a.timestamp - b.timestamp,
+      ),
+    [eventLogs, remoteLogs, tab.label],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-2 text-sm font-mono">
+        <TabSummary tab={tab} note="this tab" />
+        {remoteTabs.map((remote) => (
+          <TabSummary
+            key={remote.id}
+            tab={remote}
+            note={`last seen ${new Date(remote.lastSeen).toLocaleTimeString()}`}
+          />
+        ))}
+        {remoteTabs.length === 0 && (
+          <div className="text-slate-500 font-sans">
+            No other tabs are mirroring. Open the playground in another tab and turn on mirroring there.
+          </div>
+        )}
+      </div>
+
+      <EventLogPanel
+        title="Remote Tabs"
+        logs={mergedLogs}
+        emptyMessage="No events from any tab yet."
+        onClear={clearRemoteLogs}
+      />
+    </div>
+  );
+}
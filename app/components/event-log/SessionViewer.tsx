@@ -0,0 +1,61 @@
+'use client';
+
+import { CHAIN_NAMES } from '../../config/chains';
+import type { EventLogSession } from '../../../lib/event-log/session';
+import { EventLogPanel, SECONDARY_BUTTON } from './EventLogPanel';
+
+type SessionViewerProps = {
+  name: string;
+  session: EventLogSession;
+  onClose: () => void;
+};
+
+/**
+ * Read-only view of an exported session: its metadata and events, with the same filters as the live log.
+ */
+export function SessionViewer({ name, session, onClose }: SessionViewerProps) {
+  const { metadata, events } = session;
+  const lastEventAt = events.length > 0 ? events[events.length - 1].timestamp : metadata.exportedAt;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-gray-900/50 rounded-2xl border border-gray-700 space-y-1 text-sm font-mono">
+        <div className="text-white font-sans font-medium">{name}</div>
+        <div className="text-slate-400">Exported {new Date(metadata.exportedAt).toLocaleString()}</div>
+        <div className="text-slate-400">
+          Connector: <span className="text-slate-300">{metadata.connector?.name ?? 'not connected'}</span>
+        </div>
+        <div className="text-slate-400">
+          Chain:{' '}
+          <span className="text-slate-300">
+            {metadata.chainId === null ? 'none' : `${CHAIN_NAMES[metadata.chainId] ?? 'Unknown'} (${metadata.chainId})`}
+          </span>
+        </div>
+        <div className="text-slate-400">
+          Address: <span className="text-slate-300">{metadata.address ?? 'none'}</span>
+        </div>
+        <div className="text-slate-400 truncate">
+          User agent: <span className="text-slate-300">{metadata.userAgent || 'unknown'}</span>
+        </div>
+        <details className="text-slate-400">
+          <summary className="cursor-pointer">Applied config</summary>
+          <pre className="text-slate-300 whitespace-pre-wrap overflow-x-auto mt-1">
+            {JSON.stringify(metadata.config, null, 2)}
+          </pre>
+        </details>
+      </div>
+
+      <EventLogPanel
+        title="Imported Session"
+        logs={events}
+        emptyMessage="This session has no events."
+        anchorTime={lastEventAt}
+        actions={
+          <button onClick={onClose} className={SECONDARY_BUTTON}>
+            Close
+          </button>
+        }
+      />
+    </div>
+  );
+}
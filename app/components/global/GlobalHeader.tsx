@@ -2,8 +2,11 @@
 
 import { useCallback, useState } from 'react';
 import { useWallet } from '../../context/WagmiContextProvider';
-import { useConnect, useDisconnect, useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { useConfig } from '../../context/ConfigContext';
+import { useDisconnect, useAccount, useChainId, useChains, useSwitchChain, type Connector } from 'wagmi';
 import { useHydration } from '../../hooks/useHydration';
+import { useConnectorPicker } from '../../hooks/useConnectorPicker';
+import { localDevnet } from '../../config/chains';
 import { Copy } from 'lucide-react';
 
 const CHAIN_SHORTCUTS = {
@@ -13,14 +16,17 @@ const CHAIN_SHORTCUTS = {
 
 export function GlobalHeader() {
   const { addLog } = useWallet();
-  const { connectors, connect: wagmiConnect, isPending: isConnecting } = useConnect();
+  const { connectors, selectedConnector, connect: connectWith, isConnecting } = useConnectorPicker();
   const { disconnect: wagmiDisconnect } = useDisconnect();
-  const { address: connectedAddress, isConnected } = useAccount();
+  const { address: connectedAddress, isConnected, connector: activeConnector } = useAccount();
   const chainId = useChainId();
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain();
+  const chains = useChains();
+  const { customChains } = useConfig();
   const isHydrated = useHydration();
   const [showCopiedToast, setShowCopiedToast] = useState(false);
   const [showChainDropdown, setShowChainDropdown] = useState(false);
+  const [showConnectorDropdown, setShowConnectorDropdown] = useState(false);
   const [customChainId, setCustomChainId] = useState('');
 
   // Safe display states to prevent hydration mismatch
@@ -28,7 +34,14 @@ export function GlobalHeader() {
   const displayIsConnecting = isHydrated && isConnecting;
   const displayConnectedAddress = isHydrated ? connectedAddress : undefined;
   const currentChain = chainId ? `0x${chainId.toString(16)}` : undefined;
-  const currentChainName = chainId ? Object.entries(CHAIN_SHORTCUTS).find(([, id]) => id === chainId)?.[0] : undefined;
+  const chainShortcuts: [string, number][] = [
+    ...Object.entries(CHAIN_SHORTCUTS),
+    ...(chains.some((chain) => chain.id === localDevnet.id)
+      ? [[localDevnet.name, localDevnet.id] as [string, number]]
+      : []),
+    ...customChains.map((chain): [string, number] => [chain.name, chain.id]),
+  ];
+  const currentChainName = chainId ? chainShortcuts.find(([, id]) => id === chainId)?.[0] : undefined;
 
   const handleSwitchChain = useCallback(
     async (targetChainId: number) => {
@@ -45,6 +58,7 @@ export function GlobalHeader() {
         addLog({
           type: 'error',
           data: `Failed to switch chain: ${error}`,
+          cause: error,
         });
       }
     },
@@ -64,27 +78,26 @@ export function GlobalHeader() {
       return;
     }
 
-    handleSwitchChain(targetChainId);
-    setCustomChainId('');
-  }, [customChainId, handleSwitchChain, addLog]);
-
-  const connect = useCallback(async () => {
-    try {
-      if (connectors.length > 0) {
-        const connector = connectors[0];
-        wagmiConnect({ connector });
-        addLog({
-          type: 'message',
-          data: `Connecting with ${connector.name}...`,
-        });
-      }
-    } catch (error) {
+    // wagmi can only switch to chains in its config
+    if (!chains.some((chain) => chain.id === targetChainId)) {
       addLog({
         type: 'error',
-        data: error,
+        data: `Chain ${targetChainId} is not configured. Add it under SDK Configuration > Custom Chains first.`,
       });
+      return;
     }
-  }, [connectors, wagmiConnect, addLog]);
+
+    handleSwitchChain(targetChainId);
+    setCustomChainId('');
+  }, [customChainId, chains, handleSwitchChain, addLog]);
+
+  const connect = useCallback(
+    (connector: Connector) => {
+      setShowConnectorDropdown(false);
+      connectWith(connector);
+    },
+    [connectWith],
+  );
 
   const disconnect = useCallback(async () => {
     try {
@@ -119,6 +132,7 @@ export function GlobalHeader() {
               {displayConnectedAddress.slice(0, 6)}...{displayConnectedAddress.slice(-4)}
             </span>
             <Copy className="w-4 h-4 text-white group-hover:text-blue-500 transition-colors" />
+            {activeConnector && <span className="text-xs text-gray-400">via {activeConnector.name}</span>}
           </div>
         )}
 
@@ -147,7 +161,7 @@ export function GlobalHeader() {
                 <div className="p-4">
                   {/* Preset Chains */}
                   <div className="space-y-2 mb-4">
-                    {Object.entries(CHAIN_SHORTCUTS).map(([name, id]) => (
+                    {chainShortcuts.map(([name, id]) => (
                       <button
                         key={id}
                         onClick={() => handleSwitchChain(id)}
@@ -200,17 +214,43 @@ export function GlobalHeader() {
 
         {/* Connect/Disconnect Buttons */}
         {!displayIsConnected ? (
-          <button
-            onClick={connect}
-            disabled={displayIsConnecting}
-            className={`px-6 py-3 rounded-2xl border text-white transition-all duration-200 font-semibold shadow-lg ${
-              displayIsConnecting
-                ? 'bg-gray-700 border-gray-600 cursor-not-allowed opacity-75'
-                : 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-400 hover:to-blue-500 border-blue-500 cursor-pointer hover:scale-[1.02] shadow-blue-500/25'
-            }`}
-          >
-            {!isHydrated ? 'Loading...' : displayIsConnecting ? 'Connecting...' : 'Connect Wallet'}
-          </button>
+          <div className="relative">
+            <button
+              onClick={() =>
+                connectors.length === 1 ? connect(connectors[0]) : setShowConnectorDropdown(!showConnectorDropdown)
+              }
+              disabled={displayIsConnecting || connectors.length === 0}
+              className={`px-6 py-3 rounded-2xl border text-white transition-all duration-200 font-semibold shadow-lg ${
+                displayIsConnecting
+                  ? 'bg-gray-700 border-gray-600 cursor-not-allowed opacity-75'
+                  : 'bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-400 hover:to-blue-500 border-blue-500 cursor-pointer hover:scale-[1.02] shadow-blue-500/25'
+              }`}
+            >
+              {!isHydrated ? 'Loading...' : displayIsConnecting ? 'Connecting...' : 'Connect Wallet'}
+            </button>
+
+            {/* Connector Picker */}
+            {showConnectorDropdown && (
+              <div className="absolute top-full right-0 mt-3 bg-gradient-to-br from-gray-900 to-black border border-gray-800 rounded-2xl shadow-2xl z-50 min-w-56 backdrop-blur-sm">
+                <div className="p-4 space-y-2">
+                  {connectors.map((connector) => (
+                    <button
+                      key={connector.uid}
+                      onClick={() => connect(connector)}
+                      className={`w-full flex items-center justify-between space-x-3 text-left px-4 py-3 rounded-2xl text-sm transition-all cursor-pointer hover:scale-[1.02] ${
+                        connector.id === selectedConnector?.id
+                          ? 'bg-gradient-to-r from-blue-500 to-blue-600 text-white shadow-lg shadow-blue-500/25'
+                          : 'text-gray-200 hover:bg-gray-800/50 border border-gray-700/50'
+                      }`}
+                    >
+                      <span>{connector.name}</span>
+                      <span className="text-xs text-gray-400 font-mono">{connector.type}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
         ) : (
           <button
             onClick={disconnect}
@@ -230,6 +270,7 @@ export function GlobalHeader() {
 
       {/* Click outside to close dropdown */}
       {showChainDropdown && <div className="fixed inset-0 z-40" onClick={() => setShowChainDropdown(false)} />}
+      {showConnectorDropdown && <div className="fixed inset-0 z-40" onClick={() => setShowConnectorDropdown(false)} />}
     </header>
   );
 }
@@ -0,0 +1,61 @@
+'use client';
+
+import { useConfig } from '../../context/ConfigContext';
+import { useWallet } from '../../context/WagmiContextProvider';
+
+/**
+ * Asks before applying a config opened from a share link, showing the fields
+ * that decide where the SDK sends the user.
+ */
+export function SharedConfigPrompt() {
+  const { sharedConfig, acceptSharedConfig, dismissSharedConfig, appliedConfig } = useConfig();
+  const { addLog } = useWallet();
+
+  if (!sharedConfig) return null;
+
+  const isNewKeysUrl = sharedConfig.keysUrl !== appliedConfig.keysUrl;
+
+  return (
+    <div className="absolute bottom-6 right-6 z-50 max-w-md p-4 bg-gradient-to-br from-gray-900 to-black border border-blue-800/60 rounded-2xl shadow-2xl space-y-3">
+      <div className="text-white font-medium">Apply shared config?</div>
+      <div className="text-sm space-y-1">
+        <div className="text-gray-400">
+          App name: <span className="text-white">{sharedConfig.appName}</span>
+        </div>
+        <div className="text-gray-400 break-all">
+          Keys URL:{' '}
+          <span className={isNewKeysUrl ? 'text-yellow-400' : 'text-white'}>
+            {sharedConfig.keysUrl}
+            {isNewKeysUrl && ' (differs from yours)'}
+          </span>
+        </div>
+        <div className="text-gray-400">
+          Connectors: <span className="text-white">{sharedConfig.connectors.enabled.join(', ')}</span>
+        </div>
+        <div className="text-gray-400">
+          Custom chains: <span className="text-white">{sharedConfig.customChains.length}</span>
+        </div>
+        <div className="text-gray-500 text-xs">
+          Shared links carry no RPC URLs or WalletConnect project ID; yours are kept.
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => {
+            acceptSharedConfig();
+            addLog({ type: 'message', data: `Applied shared config for "${sharedConfig.appName}"` });
+          }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm cursor-pointer"
+        >
+          Apply
+        </button>
+        <button
+          onClick={dismissSharedConfig}
+          className="px-4 py-2 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
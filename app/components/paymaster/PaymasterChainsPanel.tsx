@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PaymasterChain } from '../../../lib/paymaster/types';
+
+type PaymasterChainsPanelProps = {
+  chains: PaymasterChain[];
+  currentChainId: number | undefined;
+  onSave: (chains: PaymasterChain[]) => void;
+};
+
+type ChainRow = {
+  chainId: string;
+  name: string;
+  url: string;
+  envVar?: string;
+};
+
+function toRows(chains: PaymasterChain[]): ChainRow[] {
+  return chains.map((chain) => ({ ...chain, chainId: String(chain.chainId) }));
+}
+
+function parseChainId(value: string) {
+  return value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+}
+
+export function PaymasterChainsPanel({ chains, currentChainId, onSave }: PaymasterChainsPanelProps) {
+  const [rows, setRows] = useState<ChainRow[]>(toRows(chains));
+
+  // Re-sync when the server copy changes (e.g. after saving)
+  useEffect(() => {
+    setRows(toRows(chains));
+  }, [chains]);
+
+  const updateRow = (index: number, changes: Partial<ChainRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Prefill with the connected chain, which may be a custom chain ID switched to from the header
+  const addRow = () => {
+    const alreadyListed = rows.some((row) => parseChainId(row.chainId) === currentChainId);
+    setRows((current) => [
+      ...current,
+      { chainId: currentChainId && !alreadyListed ? String(currentChainId) : '', name: '', url: '' },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-white text-sm font-medium">Paymaster Endpoints</label>
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-[6rem_8rem_1fr_auto] gap-2 items-center">
+            <input
+              type="text"
+              value={row.chainId}
+              onChange={(e) => updateRow(index, { chainId: e.target.value })}
+              placeholder="Chain ID"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono text-sm"
+            />
+            <input
+              type="text"
+              value={row.name}
+              onChange={(e) => updateRow(index, { name: e.target.value })}
+              placeholder="Name"
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white text-sm"
+            />
+            <input
+              type="text"
+              value={row.url}
+              onChange={(e) => updateRow(index, { url: e.target.value })}
+              placeholder={row.envVar ? `Uses ${row.envVar}` : 'https://...'}
+              className="w-full p-1 border border-gray-700 rounded bg-black text-white font-mono text-sm"
+            />
+            <button
+              onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+              className="text-red-400 hover:text-red-300 text-sm px-2 cursor-pointer"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={addRow}
+          className="px-3 py-1 bg-slate-700 text-white rounded-md border border-slate-600 hover:bg-slate-600 transition-colors text-sm cursor-pointer"
+        >
+          Add Chain
+        </button>
+        <button
+          onClick={() =>
+            onSave(
+              rows
+                .filter((row) => row.chainId.trim())
+                .map((row) => {
+                  const chainId = parseChainId(row.chainId.trim());
+                  return { chainId, name: row.name.trim() || `Chain ${chainId}`, url: row.url.trim() };
+                }),
+            )
+          }
+          className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm"
+        >
+          Save Endpoints
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs">
+        Sponsorship is offered on these chains only. Leave the URL empty to use the server environment variable.
+      </p>
+    </div>
+  );
+}
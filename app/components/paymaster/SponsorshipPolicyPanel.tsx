@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AllowedTarget, SponsorshipPolicy } from '../../../lib/paymaster/types';
+
+type SponsorshipPolicyPanelProps = {
+  policy: SponsorshipPolicy;
+  onSave: (policy: SponsorshipPolicy) => void;
+};
+
+// One target per line: `<address>` or `<address> <selector>,<selector>`
+function formatTargets(targets: AllowedTarget[]) {
+  return targets.map((target) => [target.address, target.selectors.join(',')].join(' ').trim()).join('\n');
+}
+
+function parseTargets(text: string): AllowedTarget[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [address, selectors = ''] = line.split(/\s+/);
+      return { address, selectors: selectors.split(',').filter(Boolean) };
+    });
+}
+
+function parseChainIds(text: string): number[] {
+  return text
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => (id.startsWith('0x') ? parseInt(id, 16) : parseInt(id, 10)))
+    .filter((id) => !isNaN(id));
+}
+
+export function SponsorshipPolicyPanel({ policy, onSave }: SponsorshipPolicyPanelProps) {
+  const [enabled, setEnabled] = useState(policy.enabled);
+  const [targets, setTargets] = useState(formatTargets(policy.allowedTargets));
+  const [dailySpendCap, setDailySpendCap] = useState(policy.dailySpendCap);
+  const [maxGasLimit, setMaxGasLimit] = useState(policy.maxGasLimit);
+  const [chainIds, setChainIds] = useState(policy.allowedChainIds.join(', '));
+
+  // Re-sync when the server copy changes (e.g. after saving)
+  useEffect(() => {
+    setEnabled(policy.enabled);
+    setTargets(formatTargets(policy.allowedTargets));
+    setDailySpendCap(policy.dailySpendCap);
+    setMaxGasLimit(policy.maxGasLimit);
+    setChainIds(policy.allowedChainIds.join(', '));
+  }, [policy]);
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="rounded bg-black border-gray-700 text-blue-600 focus:ring-blue-600 focus:ring-offset-0"
+        />
+        <span className="text-white text-sm font-medium">Enforce Sponsorship Policies</span>
+      </label>
+
+      {enabled && (
+        <div className="pl-6 space-y-4">
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Allowed targets (address [selectors]):</label>
+            <textarea
+              value={targets}
+              onChange={(e) => setTargets(e.target.value)}
+              placeholder="0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913 0xa9059cbb"
+              rows={3}
+              className="w-full p-2 border border-gray-700 rounded bg-black text-white font-mono text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Daily gas cost cap per sender (ETH):</label>
+              <input
+                type="text"
+                value={dailySpendCap}
+                onChange={(e) => setDailySpendCap(e.target.value)}
+                placeholder="No cap"
+                className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Max gas limit:</label>
+              <input
+                type="text"
+                value={maxGasLimit}
+                onChange={(e) => setMaxGasLimit(e.target.value)}
+                placeholder="No limit"
+                className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Allowed chain IDs:</label>
+              <input
+                type="text"
+                value={chainIds}
+                onChange={(e) => setChainIds(e.target.value)}
+                placeholder="Any chain"
+                className="w-full p-1 border border-gray-700 rounded bg-black text-white"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() =>
+          onSave({
+            enabled,
+            allowedTargets: parseTargets(targets),
+            dailySpendCap: dailySpendCap.trim(),
+            maxGasLimit: maxGasLimit.trim(),
+            allowedChainIds: parseChainIds(chainIds),
+          })
+        }
+        className="bg-blue-500 text-white px-3 py-1 rounded-md text-sm"
+      >
+        Save Policies
+      </button>
+    </div>
+  );
+}
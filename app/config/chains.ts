@@ -0,0 +1,39 @@
+import { defineChain, type Address } from 'viem';
+import { MOCK_USDC_ADDRESS } from '../../lib/devnet/mockUsdc';
+
+export const LOCAL_DEVNET_CHAIN_ID = 31337;
+
+// An anvil or hardhat node; the RPC can also be changed per session with an RPC transport override
+export const localDevnet = defineChain({
+  id: LOCAL_DEVNET_CHAIN_ID,
+  name: 'Local Devnet',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: [process.env.NEXT_PUBLIC_DEVNET_RPC_URL || 'http://127.0.0.1:8545'] } },
+  testnet: true,
+});
+
+// Mock USDC the faucet deploys on first use and mints. Set the env var to use a token deployed some other way
+export const DEVNET_USDC_ADDRESS: Address =
+  (process.env.NEXT_PUBLIC_DEVNET_USDC_ADDRESS as Address | undefined) || MOCK_USDC_ADDRESS;
+
+// USDC contract addresses for chains the playground transacts on
+export const CHAIN_TO_USDC_ADDRESS: Record<number, Address> = {
+  8453: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base
+  84532: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia
+  [LOCAL_DEVNET_CHAIN_ID]: DEVNET_USDC_ADDRESS, // Local Devnet
+};
+
+export const CHAIN_NAMES: Record<number, string> = {
+  8453: 'Base',
+  84532: 'Base Sepolia',
+  [LOCAL_DEVNET_CHAIN_ID]: 'Local Devnet',
+};
+
+// The devnet has no explorer
+export const CHAIN_TO_EXPLORER: Record<number, string> = {
+  8453: 'https://basescan.org',
+  84532: 'https://sepolia.basescan.org',
+};
+
+// USDC has 6 decimals on every supported chain
+export const USDC_DECIMALS = 6;
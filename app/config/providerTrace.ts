@@ -0,0 +1,140 @@
+import type { CreateConnectorFn } from 'wagmi';
+import type { OperationRef } from '../../lib/event-log/operations';
+
+export type ProviderRequestTrace = {
+  connector: string;
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code?: number; message: string };
+  durationMs: number;
+};
+
+// EIP-1193 events, recorded with whatever payload the provider emits
+export const PROVIDER_EVENTS = ['connect', 'disconnect', 'accountsChanged', 'chainChanged', 'message'] as const;
+
+export type ProviderEvent = (typeof PROVIDER_EVENTS)[number];
+
+type TraceListener = (trace: ProviderRequestTrace, operation: OperationRef | null) => void;
+
+type RequestArguments = { method: string; params?: unknown };
+
+type Provider = { request: (args: RequestArguments) => Promise<unknown> };
+
+export type ProviderEventEmitter = {
+  on: (event: string, listener: (payload: unknown) => void) => void;
+  removeListener: (event: string, listener: (payload: unknown) => void) => void;
+};
+
+// Module-level so tracing survives wagmi config rebuilds
+const listeners = new Set<TraceListener>();
+
+// Requests made while an operation is in progress are attributed to it
+let activeOperation: OperationRef | null = null;
+
+// Cached so a provider keeps one identity, whoever asks for it
+const tracedProviders = new WeakMap<object, object>();
+
+export function setActiveOperation(operation: OperationRef) {
+  activeOperation = operation;
+}
+
+// Only clears the given operation, so a newer one isn't ended by an older one finishing
+export function clearActiveOperation(operationId: string) {
+  if (activeOperation?.id === operationId) activeOperation = null;
+}
+
+export function subscribeProviderRequests(listener: TraceListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function toTraceError(error: unknown): ProviderRequestTrace['error'] {
+  if (error && typeof error === 'object') {
+    // viem errors carry a one-line shortMessage alongside the multi-line message
+    const { code, message, shortMessage } = error as { code?: unknown; message?: unknown; shortMessage?: unknown };
+    return {
+      code: typeof code === 'number' ? code : undefined,
+      message: typeof shortMessage === 'string' ? shortMessage : typeof message === 'string' ? message : String(error),
+    };
+  }
+  return { message: String(error) };
+}
+
+function traceProvider<provider extends object>(provider: provider, connector: string): provider {
+  const cached = tracedProviders.get(provider);
+  if (cached) return cached as provider;
+
+  const request = async ({ method, params }: RequestArguments) => {
+    const startedAt = performance.now();
+    const operation = activeOperation;
+    const record = (outcome: Pick<ProviderRequestTrace, 'result' | 'error'>) => {
+      const trace = { connector, method, params, ...outcome, durationMs: Math.round(performance.now() - startedAt) };
+      listeners.forEach((listener) => listener(trace, operation));
+    };
+
+    try {
+      const result = await (provider as Provider).request({ method, params });
+      record({ result });
+      return result;
+    } catch (error) {
+      record({ error: toTraceError(error) });
+      throw error;
+    }
+  };
+
+  // Everything but `request` passes straight through, bound to the SDK's own object
+  const traced = new Proxy(provider, {
+    get(target, property) {
+      if (property === 'request') return request;
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  tracedProviders.set(provider, traced);
+  return traced;
+}
+
+/**
+ * Wrap a connector so every EIP-1193 request its provider sees is reported to
+ * `subscribeProviderRequests`, including the connector's own calls. Wallets
+ * found through EIP-6963 discovery are set up by wagmi and aren't traced.
+ */
+export function withRequestTracing<connectorFn extends CreateConnectorFn>(connectorFn: connectorFn): connectorFn {
+  return ((config) => {
+    const connector = connectorFn(config);
+    const getProvider = connector.getProvider;
+
+    connector.getProvider = async function (parameters) {
+      const provider = await getProvider.call(this, parameters);
+      return provider && typeof provider === 'object' ? traceProvider(provider, connector.id) : provider;
+    };
+    return connector;
+  }) as connectorFn;
+}
+
+// Errors (e.g. the ProviderRpcError a `disconnect` carries) don't survive JSON.stringify
+function toEventPayload(payload: unknown) {
+  if (payload instanceof Error) {
+    return { code: (payload as { code?: unknown }).code, message: payload.message };
+  }
+  return payload;
+}
+
+/**
+ * Listen to a provider's own EIP-1193 events. Returns a function that removes the listeners.
+ */
+export function subscribeProviderEvents(
+  provider: ProviderEventEmitter,
+  listener: (event: ProviderEvent, payload: unknown) => void,
+): () => void {
+  const handlers = PROVIDER_EVENTS.map((event) => {
+    const handler = (payload: unknown) => listener(event, toEventPayload(payload));
+    provider.on(event, handler);
+    return [event, handler] as const;
+  });
+
+  return () => handlers.forEach(([event, handler]) => provider.removeListener(event, handler));
+}
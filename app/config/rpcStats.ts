@@ -0,0 +1,86 @@
+import { http, type HttpTransportConfig, type Transport } from 'viem';
+
+export type EndpointStats = {
+  requests: number;
+  errors: number;
+  totalLatencyMs: number;
+  lastLatencyMs: number;
+};
+
+export type ChainRpcStats = {
+  activeUrl: string | null; // Endpoint that served the most recent request
+  endpoints: Record<string, EndpointStats>;
+};
+
+export type RpcStats = Record<number, ChainRpcStats>;
+
+const EMPTY_ENDPOINT_STATS: EndpointStats = { requests: 0, errors: 0, totalLatencyMs: 0, lastLatencyMs: 0 };
+
+// Module-level so stats survive wagmi config rebuilds; replaced on every update for useSyncExternalStore
+let stats: RpcStats = {};
+const listeners = new Set<() => void>();
+
+function recordRequest(chainId: number, url: string, latencyMs: number, failed: boolean) {
+  const chainStats = stats[chainId] ?? { activeUrl: null, endpoints: {} };
+  const endpoint = chainStats.endpoints[url] ?? EMPTY_ENDPOINT_STATS;
+
+  stats = {
+    ...stats,
+    [chainId]: {
+      activeUrl: failed ? chainStats.activeUrl : url,
+      endpoints: {
+        ...chainStats.endpoints,
+        [url]: {
+          requests: endpoint.requests + 1,
+          errors: endpoint.errors + (failed ? 1 : 0),
+          totalLatencyMs: endpoint.totalLatencyMs + latencyMs,
+          lastLatencyMs: latencyMs,
+        },
+      },
+    },
+  };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeRpcStats(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getRpcStats(): RpcStats {
+  return stats;
+}
+
+export function resetRpcStats() {
+  stats = {};
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * viem `http` transport that records latency and failures per endpoint.
+ * Latency covers the whole request, including batching wait and retries.
+ */
+export function instrumentedHttp(chainId: number, url: string, config?: HttpTransportConfig): Transport {
+  const transport = http(url, config);
+
+  return (parameters) => {
+    const instance = transport(parameters);
+
+    return {
+      ...instance,
+      request: (async (args, options) => {
+        const startedAt = performance.now();
+        try {
+          const result = await instance.request(args, options);
+          recordRequest(chainId, url, Math.round(performance.now() - startedAt), false);
+          return result;
+        } catch (error) {
+          recordRequest(chainId, url, Math.round(performance.now() - startedAt), true);
+          throw error;
+        }
+      }) as typeof instance.request,
+    };
+  };
+}
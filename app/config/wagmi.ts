@@ -1,30 +1,132 @@
-import { createConfig, http, cookieStorage, createStorage } from 'wagmi';
+import { createConfig, fallback, cookieStorage, createStorage } from 'wagmi';
 import { mainnet, base, baseSepolia } from 'wagmi/chains';
-import { coinbaseWallet } from '@wagmi/connectors';
+import { coinbaseWallet, injected, mock, walletConnect } from '@wagmi/connectors';
+import type { Address, Chain } from 'viem';
+import { toViemChain, type CustomChain } from '../../lib/chains/custom';
+import type { TransportOverride, TransportOverrides } from '../../lib/chains/transports';
+import { DEFAULT_COINBASE_WALLET_OPTIONS, type CoinbaseWalletOptions } from '../../lib/config/coinbaseWallet';
+import { DEFAULT_CONNECTOR_SETTINGS, type ConnectorSettings } from '../../lib/config/connectors';
+import { createSimulatedWalletProvider } from '../../lib/simulated-wallet/provider';
+import { localDevnet } from './chains';
+import { instrumentedHttp } from './rpcStats';
+import { withRequestTracing } from './providerTrace';
+
+export const BUILT_IN_CHAINS = [base, mainnet, baseSepolia, localDevnet] as const;
+
+// Override URLs go through viem `fallback` in order; without any, the chain's public RPC is used
+function createChainTransport(chain: Chain, override?: TransportOverride) {
+  const urls = override?.urls.length ? override.urls : [chain.rpcUrls.default.http[0]];
+  const transports = urls.map((url) => instrumentedHttp(chain.id, url, { batch: override?.batch ?? false }));
+  return transports.length > 1 ? fallback(transports) : transports[0];
+}
+
+function createCoinbaseWalletConnector(
+  metadata: { appName: string; appLogoUrl: string; keysUrl: string },
+  options: CoinbaseWalletOptions,
+  chains: readonly Chain[],
+) {
+  if (options.version === '3') {
+    return coinbaseWallet({
+      version: '3',
+      appName: metadata.appName,
+      appLogoUrl: metadata.appLogoUrl,
+      darkMode: options.darkMode,
+      headlessMode: options.headlessMode || undefined,
+      overrideIsMetaMask: options.overrideIsMetaMask,
+      enableMobileWalletLink: options.enableMobileWalletLink,
+      jsonRpcUrl: options.jsonRpcUrl || undefined,
+      chainId: chains[0].id,
+    });
+  }
+
+  return coinbaseWallet({
+    version: '4',
+    appName: metadata.appName,
+    appLogoUrl: metadata.appLogoUrl,
+    preference: {
+      options: options.preference,
+      keysUrl: metadata.keysUrl,
+      ...(options.attribution === 'auto' && { attribution: { auto: true } }),
+      ...(options.attribution === 'dataSuffix' && {
+        attribution: { dataSuffix: options.dataSuffix as `0x${string}` },
+      }),
+    },
+  });
+}
+
+export function createWagmiConfig(options?: {
+  appName?: string;
+  appLogoUrl?: string;
+  keysUrl?: string;
+  coinbaseWallet?: CoinbaseWalletOptions;
+  connectors?: ConnectorSettings;
+  customChains?: CustomChain[];
+  transportOverrides?: TransportOverrides;
+  disabledChainIds?: number[];
+}) {
+  const disabledChainIds = options?.disabledChainIds ?? [];
+  const walletOptions = options?.coinbaseWallet ?? DEFAULT_COINBASE_WALLET_OPTIONS;
+  // The preferred chain goes first so it becomes wagmi's default and leads the SDK's appChainIds
+  const enabledChains = [...BUILT_IN_CHAINS, ...(options?.customChains ?? []).map(toViemChain)]
+    .filter((chain) => !disabledChainIds.includes(chain.id))
+    .sort((a, b) => Number(b.id === walletOptions.preferredChainId) - Number(a.id === walletOptions.preferredChainId));
+  // wagmi needs at least one chain
+  const chains =
+    enabledChains.length > 0 ? ([enabledChains[0], ...enabledChains.slice(1)] as const) : ([base] as const);
+  const overrides = options?.transportOverrides ?? {};
+  const connectorSettings = options?.connectors ?? DEFAULT_CONNECTOR_SETTINGS;
+  const isEnabled = (kind: ConnectorSettings['enabled'][number]) => connectorSettings.enabled.includes(kind);
+  const metadata = {
+    appName: options?.appName || 'Smart Wallet Playground',
+    appLogoUrl: options?.appLogoUrl || '/favicon.ico',
+    keysUrl: options?.keysUrl || 'https://keys.coinbase.com/connect',
+  };
 
-export function createWagmiConfig(options?: { appName?: string; appLogoUrl?: string; keysUrl?: string }) {
   return createConfig({
-    chains: [base, mainnet, baseSepolia],
+    chains,
     connectors: [
-      coinbaseWallet({
-        appName: options?.appName || 'Smart Wallet Playground',
-        appLogoUrl: options?.appLogoUrl || '/favicon.ico',
-        preference: {
-          options: 'smartWalletOnly',
-          keysUrl: options?.keysUrl || 'https://keys.coinbase.com/connect',
-        },
-        version: '4',
-      }),
-    ],
+      ...(isEnabled('coinbaseWallet') ? [createCoinbaseWalletConnector(metadata, walletOptions, chains)] : []),
+      ...(isEnabled('injected') ? [injected()] : []),
+      ...(isEnabled('walletConnect')
+        ? [
+            walletConnect({
+              projectId: connectorSettings.walletConnectProjectId,
+              metadata: {
+                name: metadata.appName,
+                description: metadata.appName,
+                url: typeof window !== 'undefined' ? window.location.origin : '',
+                icons: [metadata.appLogoUrl],
+              },
+            }),
+          ]
+        : []),
+      ...(isEnabled('mock')
+        ? [mock({ accounts: connectorSettings.mockAccounts as [Address, ...Address[]], features: { reconnect: true } })]
+        : []),
+      ...(isEnabled('simulated')
+        ? [
+            injected({
+              target: {
+                id: 'simulatedWallet',
+                name: 'Simulated Wallet',
+                provider: createSimulatedWalletProvider(chains),
+              },
+            }),
+          ]
+        : []),
+    ].map(withRequestTracing),
+    // EIP-6963 wallets announce themselves and are added as extra injected connectors
+    multiInjectedProviderDiscovery: isEnabled('injected'),
     ssr: true,
     storage: createStorage({
       storage: cookieStorage,
     }),
-    transports: {
-      [mainnet.id]: http(),
-      [base.id]: http(),
-      [baseSepolia.id]: http(),
-    },
+    transports: Object.fromEntries(chains.map((chain) => [chain.id, createChainTransport(chain, overrides[chain.id])])),
+    pollingInterval: Object.fromEntries(
+      Object.entries(overrides).flatMap(([chainId, override]): [number, number][] =>
+        override.pollingInterval === null ? [] : [[Number(chainId), override.pollingInterval]],
+      ),
+    ),
   });
 }
 
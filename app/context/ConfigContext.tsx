@@ -1,23 +1,69 @@
 'use client';
 
-import { createContext, useContext, useState, useMemo, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useState, useMemo, useCallback, useEffect, type ReactNode } from 'react';
+import type { CustomChain } from '../../lib/chains/custom';
+import {
+  isDefaultTransportOverride,
+  type TransportOverride,
+  type TransportOverrides,
+} from '../../lib/chains/transports';
+import type { CoinbaseWalletOptions } from '../../lib/config/coinbaseWallet';
+import type { ConnectorSettings } from '../../lib/config/connectors';
+import {
+  CONFIG_STORAGE_KEY,
+  DEFAULT_PLAYGROUND_CONFIG,
+  LEGACY_CUSTOM_CHAINS_STORAGE_KEY,
+  PLAYGROUND_CONFIG_VERSION,
+  SHARE_CONFIG_PARAM,
+  decodePlaygroundConfig,
+  migrateLegacyCustomChains,
+  parsePlaygroundConfig,
+  withLocalSecrets,
+  type PlaygroundConfig,
+} from '../../lib/config/persistence';
 
 type ConfigContextType = {
   appName: string;
   appLogoUrl: string;
   keysUrl: string;
+  coinbaseWallet: CoinbaseWalletOptions;
+  connectors: ConnectorSettings;
+  transportOverrides: TransportOverrides;
+  disabledChainIds: number[];
 
   stagedAppName: string;
   stagedAppLogoUrl: string;
   stagedKeysUrl: string;
+  stagedCoinbaseWallet: CoinbaseWalletOptions;
+  stagedConnectors: ConnectorSettings;
+  stagedTransportOverrides: TransportOverrides;
+  stagedDisabledChainIds: number[];
 
   setStagedAppName: (name: string) => void;
   setStagedAppLogoUrl: (url: string) => void;
   setStagedKeysUrl: (url: string) => void;
+  setStagedCoinbaseWallet: (changes: Partial<CoinbaseWalletOptions>) => void;
+  setStagedConnectors: (changes: Partial<ConnectorSettings>) => void;
+  setStagedTransportOverride: (chainId: number, override: TransportOverride) => void;
+  setStagedChainEnabled: (chainId: number, enabled: boolean) => void;
 
-  applyChanges: () => void;
+  // Applies the staged values, or a whole config (e.g. a profile) when given one
+  applyChanges: (config?: PlaygroundConfig) => void;
 
   hasPendingChanges: boolean;
+
+  // Everything applied, as persisted to localStorage and encoded in share links
+  appliedConfig: PlaygroundConfig;
+
+  // Applied immediately, not staged
+  customChains: CustomChain[];
+  saveCustomChain: (chain: CustomChain) => void;
+  removeCustomChain: (chainId: number) => void;
+
+  // Decoded from a share link, pending confirmation
+  sharedConfig: PlaygroundConfig | null;
+  acceptSharedConfig: () => void;
+  dismissSharedConfig: () => void;
 };
 
 const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
@@ -27,48 +73,237 @@ type ConfigProviderProps = {
 };
 
 export function ConfigProvider({ children }: ConfigProviderProps) {
-  const [appName, setAppName] = useState('Smart Wallet Playground');
-  const [appLogoUrl, setAppLogoUrl] = useState('/favicon.ico');
-  const [keysUrl, setKeysUrl] = useState('https://keys.coinbase.com/connect');
+  const [appName, setAppName] = useState(DEFAULT_PLAYGROUND_CONFIG.appName);
+  const [appLogoUrl, setAppLogoUrl] = useState(DEFAULT_PLAYGROUND_CONFIG.appLogoUrl);
+  const [keysUrl, setKeysUrl] = useState(DEFAULT_PLAYGROUND_CONFIG.keysUrl);
+  const [coinbaseWallet, setCoinbaseWallet] = useState(DEFAULT_PLAYGROUND_CONFIG.coinbaseWallet);
+  const [connectors, setConnectors] = useState(DEFAULT_PLAYGROUND_CONFIG.connectors);
+  const [transportOverrides, setTransportOverrides] = useState(DEFAULT_PLAYGROUND_CONFIG.transportOverrides);
+  const [disabledChainIds, setDisabledChainIds] = useState(DEFAULT_PLAYGROUND_CONFIG.disabledChainIds);
+
+  const [stagedAppName, setStagedAppName] = useState(DEFAULT_PLAYGROUND_CONFIG.appName);
+  const [stagedAppLogoUrl, setStagedAppLogoUrl] = useState(DEFAULT_PLAYGROUND_CONFIG.appLogoUrl);
+  const [stagedKeysUrl, setStagedKeysUrl] = useState(DEFAULT_PLAYGROUND_CONFIG.keysUrl);
+  const [stagedCoinbaseWallet, setStagedCoinbaseWalletOptions] = useState(DEFAULT_PLAYGROUND_CONFIG.coinbaseWallet);
+  const [stagedConnectors, setStagedConnectorSettings] = useState(DEFAULT_PLAYGROUND_CONFIG.connectors);
+  const [stagedTransportOverrides, setStagedTransportOverrides] = useState(
+    DEFAULT_PLAYGROUND_CONFIG.transportOverrides,
+  );
+  const [stagedDisabledChainIds, setStagedDisabledChainIds] = useState(DEFAULT_PLAYGROUND_CONFIG.disabledChainIds);
+
+  const [customChains, setCustomChains] = useState(DEFAULT_PLAYGROUND_CONFIG.customChains);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Default overrides are dropped so an untouched chain never counts as a pending change
+  const setStagedTransportOverride = useCallback((chainId: number, override: TransportOverride) => {
+    setStagedTransportOverrides((current) => {
+      const next = { ...current, [chainId]: override };
+      if (isDefaultTransportOverride(override)) delete next[chainId];
+      return next;
+    });
+  }, []);
+
+  const setStagedCoinbaseWallet = useCallback((changes: Partial<CoinbaseWalletOptions>) => {
+    setStagedCoinbaseWalletOptions((current) => ({ ...current, ...changes }));
+  }, []);
+
+  const setStagedConnectors = useCallback((changes: Partial<ConnectorSettings>) => {
+    setStagedConnectorSettings((current) => ({ ...current, ...changes }));
+  }, []);
 
-  const [stagedAppName, setStagedAppName] = useState('Smart Wallet Playground');
-  const [stagedAppLogoUrl, setStagedAppLogoUrl] = useState('/favicon.ico');
-  const [stagedKeysUrl, setStagedKeysUrl] = useState('https://keys.coinbase.com/connect');
+  const setStagedChainEnabled = useCallback((chainId: number, enabled: boolean) => {
+    setStagedDisabledChainIds((current) =>
+      enabled ? current.filter((id) => id !== chainId) : [...current.filter((id) => id !== chainId), chainId],
+    );
+  }, []);
+
+  const loadConfig = useCallback((config: PlaygroundConfig) => {
+    setAppName(config.appName);
+    setAppLogoUrl(config.appLogoUrl);
+    setKeysUrl(config.keysUrl);
+    setCoinbaseWallet(config.coinbaseWallet);
+    setConnectors(config.connectors);
+    setTransportOverrides(config.transportOverrides);
+    setDisabledChainIds(config.disabledChainIds);
+    setStagedAppName(config.appName);
+    setStagedAppLogoUrl(config.appLogoUrl);
+    setStagedKeysUrl(config.keysUrl);
+    setStagedCoinbaseWalletOptions(config.coinbaseWallet);
+    setStagedConnectorSettings(config.connectors);
+    setStagedTransportOverrides(config.transportOverrides);
+    setStagedDisabledChainIds(config.disabledChainIds);
+    setCustomChains(config.customChains);
+  }, []);
+
+  // A config from a share link waits for the user to accept it, since it can point the SDK at any keys URL
+  const [sharedConfig, setSharedConfig] = useState<PlaygroundConfig | null>(null);
+
+  // localStorage and the URL are only available after hydration
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const shared = url.searchParams.get(SHARE_CONFIG_PARAM);
+    const stored =
+      parsePlaygroundConfig(localStorage.getItem(CONFIG_STORAGE_KEY)) ??
+      migrateLegacyCustomChains(localStorage.getItem(LEGACY_CUSTOM_CHAINS_STORAGE_KEY));
+
+    if (stored) {
+      loadConfig(stored);
+    }
+
+    // Any legacy chains are now in the loaded config, which is saved under the new key
+    localStorage.removeItem(LEGACY_CUSTOM_CHAINS_STORAGE_KEY);
+
+    // Drop the param so reloading doesn't offer the same config again
+    if (shared) {
+      setSharedConfig(decodePlaygroundConfig(shared));
+      url.searchParams.delete(SHARE_CONFIG_PARAM);
+      window.history.replaceState(null, '', url.toString());
+    }
+
+    setIsLoaded(true);
+  }, [loadConfig]);
+
+  const appliedConfig = useMemo(
+    () => ({
+      version: PLAYGROUND_CONFIG_VERSION,
+      appName,
+      appLogoUrl,
+      keysUrl,
+      coinbaseWallet,
+      connectors,
+      transportOverrides,
+      disabledChainIds,
+      customChains,
+    }),
+    [appName, appLogoUrl, keysUrl, coinbaseWallet, connectors, transportOverrides, disabledChainIds, customChains],
+  );
+
+  useEffect(() => {
+    if (isLoaded) {
+      localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(appliedConfig));
+    }
+  }, [isLoaded, appliedConfig]);
+
+  // Saving an existing chain ID replaces it
+  const saveCustomChain = useCallback((chain: CustomChain) => {
+    setCustomChains((chains) => [...chains.filter((existing) => existing.id !== chain.id), chain]);
+  }, []);
+
+  const removeCustomChain = useCallback((chainId: number) => {
+    setCustomChains((chains) => chains.filter((chain) => chain.id !== chainId));
+  }, []);
+
+  const hasPendingChanges =
+    stagedAppName !== appName ||
+    stagedAppLogoUrl !== appLogoUrl ||
+    stagedKeysUrl !== keysUrl ||
+    JSON.stringify(stagedCoinbaseWallet) !== JSON.stringify(coinbaseWallet) ||
+    JSON.stringify(stagedConnectors) !== JSON.stringify(connectors) ||
+    JSON.stringify(stagedTransportOverrides) !== JSON.stringify(transportOverrides) ||
+    JSON.stringify(stagedDisabledChainIds) !== JSON.stringify(disabledChainIds);
+
+  const applyChanges = useCallback(
+    (config?: PlaygroundConfig) => {
+      if (config) {
+        loadConfig(config);
+        return;
+      }
+
+      setAppName(stagedAppName);
+      setAppLogoUrl(stagedAppLogoUrl);
+      setKeysUrl(stagedKeysUrl);
+      setCoinbaseWallet(stagedCoinbaseWallet);
+      setConnectors(stagedConnectors);
+      setTransportOverrides(stagedTransportOverrides);
+      setDisabledChainIds(stagedDisabledChainIds);
+    },
+    [
+      loadConfig,
+      stagedAppName,
+      stagedAppLogoUrl,
+      stagedKeysUrl,
+      stagedCoinbaseWallet,
+      stagedConnectors,
+      stagedTransportOverrides,
+      stagedDisabledChainIds,
+    ],
+  );
 
-  const hasPendingChanges = stagedAppName !== appName || stagedAppLogoUrl !== appLogoUrl || stagedKeysUrl !== keysUrl;
+  // Shared configs carry no RPC URLs or WalletConnect project ID, so this browser's are kept
+  const acceptSharedConfig = useCallback(() => {
+    if (!sharedConfig) return;
+    loadConfig(withLocalSecrets(sharedConfig, appliedConfig));
+    setSharedConfig(null);
+  }, [sharedConfig, appliedConfig, loadConfig]);
 
-  const applyChanges = useCallback(() => {
-    setAppName(stagedAppName);
-    setAppLogoUrl(stagedAppLogoUrl);
-    setKeysUrl(stagedKeysUrl);
-  }, [stagedAppName, stagedAppLogoUrl, stagedKeysUrl]);
+  const dismissSharedConfig = useCallback(() => {
+    setSharedConfig(null);
+  }, []);
 
   const contextValue = useMemo(
     () => ({
       appName,
       appLogoUrl,
       keysUrl,
+      coinbaseWallet,
+      connectors,
+      transportOverrides,
+      disabledChainIds,
       stagedAppName,
       stagedAppLogoUrl,
       stagedKeysUrl,
+      stagedCoinbaseWallet,
+      stagedConnectors,
+      stagedTransportOverrides,
+      stagedDisabledChainIds,
       setStagedAppName,
       setStagedAppLogoUrl,
       setStagedKeysUrl,
+      setStagedCoinbaseWallet,
+      setStagedConnectors,
+      setStagedTransportOverride,
+      setStagedChainEnabled,
       applyChanges,
       hasPendingChanges,
+      appliedConfig,
+      customChains,
+      saveCustomChain,
+      removeCustomChain,
+      sharedConfig,
+      acceptSharedConfig,
+      dismissSharedConfig,
     }),
     [
       appName,
       appLogoUrl,
       keysUrl,
+      coinbaseWallet,
+      connectors,
+      transportOverrides,
+      disabledChainIds,
       stagedAppName,
       stagedAppLogoUrl,
       stagedKeysUrl,
+      stagedCoinbaseWallet,
+      stagedConnectors,
+      stagedTransportOverrides,
+      stagedDisabledChainIds,
       setStagedAppName,
       setStagedAppLogoUrl,
       setStagedKeysUrl,
+      setStagedCoinbaseWallet,
+      setStagedConnectors,
+      setStagedTransportOverride,
+      setStagedChainEnabled,
       applyChanges,
       hasPendingChanges,
+      appliedConfig,
+      customChains,
+      saveCustomChain,
+      removeCustomChain,
+      sharedConfig,
+      acceptSharedConfig,
+      dismissSharedConfig,
     ],
   );
 
@@ -1,27 +1,66 @@
 'use client';
 
-import { createContext, useContext, useCallback, useState, useEffect, useMemo } from 'react';
+import { createContext, useContext, useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { usePathname } from 'next/navigation';
 import { WagmiProvider, useAccount, useChainId } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { createWagmiConfig } from '../config/wagmi';
 import { useConfig } from './ConfigContext';
+import { describeCoinbaseWalletOptions } from '../../lib/config/coinbaseWallet';
+import {
+  subscribeProviderEvents,
+  subscribeProviderRequests,
+  type ProviderEventEmitter,
+  type ProviderRequestTrace,
+} from '../config/providerTrace';
+import type { OperationRef, OperationStage } from '../../lib/event-log/operations';
+import { classifyError, type ErrorClassification } from '../../lib/errors/classify';
+import {
+  MIRROR_STORAGE_KEY,
+  createTabId,
+  openLogMirror,
+  type LogMirror,
+  type RemoteTab,
+  type TabState,
+} from '../../lib/event-log/mirror';
+
+// 'provider' entries are events the connector's provider emitted, with their real payloads.
+// 'wagmi' entries are synthesized from wagmi state changes. Feature logs have no source
+export type EventSource = 'provider' | 'wagmi';
 
 export type EventLog = {
-  type: 'connect' | 'disconnect' | 'accountsChanged' | 'chainChanged' | 'message' | 'error';
+  id: number; // Stable across filtering, for keys and pinning
+  type: 'connect' | 'disconnect' | 'accountsChanged' | 'chainChanged' | 'message' | 'error' | 'request';
   timestamp: number;
+  source?: EventSource;
+  route?: string; // Feature page open when the entry was logged
+  operation?: OperationRef & { stage: OperationStage }; // Correlates the entries of one send, sign or sponsored call
+  error?: ErrorClassification; // For 'error' entries and failed requests
+  tab?: string; // Label of the tab that logged a mirrored entry
   data:
     | string // For 'message' and 'chainChanged' types
     | Error // For 'error' type
-    | unknown // For 'error' type when error is unknown
-    | { chainId: string } // For 'connect' type
+    | unknown // For 'error' type when error is unknown, and provider event payloads
+    | { chainId: string; connector?: string; options?: Record<string, unknown> } // For wagmi 'connect' type
     | string[] // For 'accountsChanged' type
-    | { code: number; message: string }; // For 'disconnect' type
+    | ProviderRequestTrace; // For 'request' type
+};
+
+export type NewEventLog = Omit<EventLog, 'id' | 'timestamp' | 'route' | 'error' | 'tab'> & {
+  cause?: unknown; // The raw error behind the entry, classified in place of `data` when given
 };
 
 type LogContextType = {
-  addLog: (log: Omit<EventLog, 'timestamp'>) => void;
+  addLog: (log: NewEventLog) => void;
   clearLogs: () => void;
   eventLogs: EventLog[];
+  // Cross-tab mirroring: entries are broadcast to, and received from, other tabs of this origin
+  isMirroring: boolean;
+  setMirroring: (enabled: boolean) => void;
+  tab: TabState;
+  remoteTabs: RemoteTab[];
+  remoteLogs: EventLog[];
+  clearRemoteLogs: () => void;
 };
 
 const LogContext = createContext<LogContextType | undefined>(undefined);
@@ -37,44 +76,205 @@ const queryClient = new QueryClient({
 
 function LogContextProvider({ children }: { children: React.ReactNode }) {
   const [eventLogs, setEventLogs] = useState<EventLog[]>([]);
-  const { address: connectedAddress, isConnected } = useAccount();
+  const { address: connectedAddress, isConnected, connector } = useAccount();
   const chainId = useChainId();
+  const { appName, coinbaseWallet, keysUrl } = useConfig();
+
+  const nextLogId = useRef(0);
+  const mirrorRef = useRef<LogMirror | null>(null);
+
+  // Read through a ref so addLog stays stable across navigation
+  const pathname = usePathname();
+  const routeRef = useRef(pathname);
+  useEffect(() => {
+    routeRef.current = pathname;
+  }, [pathname]);
+
+  // Labelled with the app name so tabs comparing configurations can be told apart
+  const [tabId] = useState(createTabId);
+  const tab = useMemo<TabState>(
+    () => ({
+      id: tabId,
+      label: `${appName} (${tabId})`,
+      route: pathname,
+      connector: isConnected ? (connector?.name ?? null) : null,
+      chainId: isConnected ? chainId : null,
+      address: connectedAddress ?? null,
+    }),
+    [tabId, appName, pathname, isConnected, connector, chainId, connectedAddress],
+  );
+  const tabRef = useRef(tab);
+  useEffect(() => {
+    tabRef.current = tab;
+  }, [tab]);
 
-  const addLog = useCallback((log: Omit<EventLog, 'timestamp'>) => {
-    setEventLogs((prev) => [...prev, { ...log, timestamp: Date.now() }]);
+  const addLog = useCallback(({ cause, ...log }: NewEventLog) => {
+    const entry: EventLog = {
+      ...log,
+      id: nextLogId.current++,
+      timestamp: Date.now(),
+      route: routeRef.current,
+      error: cause !== undefined || log.type === 'error' ? classifyError(cause ?? log.data) : undefined,
+    };
+    setEventLogs((prev) => [...prev, entry]);
+    mirrorRef.current?.post({
+      kind: 'event',
+      tabId: tabRef.current.id,
+      event: { ...entry, tab: tabRef.current.label },
+    });
   }, []);
 
   const clearLogs = useCallback(() => {
     setEventLogs([]);
   }, []);
 
+  const [isMirroring, setIsMirroring] = useState(false);
+  const [remoteTabs, setRemoteTabs] = useState<RemoteTab[]>([]);
+  const [remoteLogs, setRemoteLogs] = useState<EventLog[]>([]);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setIsMirroring(localStorage.getItem(MIRROR_STORAGE_KEY) === 'true');
+  }, []);
+
+  const setMirroring = useCallback((enabled: boolean) => {
+    setIsMirroring(enabled);
+    localStorage.setItem(MIRROR_STORAGE_KEY, String(enabled));
+  }, []);
+
+  const clearRemoteLogs = useCallback(() => {
+    setRemoteLogs([]);
+  }, []);
+
+  // Join the other tabs while mirroring. Their entries are kept apart from this tab's log
+  useEffect(() => {
+    if (!isMirroring) return;
+
+    const upsertTab = (state: TabState) =>
+      setRemoteTabs((prev) => [...prev.filter((remote) => remote.id !== state.id), { ...state, lastSeen: Date.now() }]);
+
+    const mirror = openLogMirror((message) => {
+      switch (message.kind) {
+        case 'hello':
+          mirror?.post({ kind: 'state', tab: tabRef.current });
+          upsertTab(message.tab);
+          break;
+        case 'state':
+          upsertTab(message.tab);
+          break;
+        case 'event':
+          setRemoteLogs((prev) => [...prev, { ...message.event, id: nextLogId.current++ }]);
+          setRemoteTabs((prev) =>
+            prev.map((remote) => (remote.id === message.tabId ? { ...remote, lastSeen: Date.now() } : remote)),
+          );
+          break;
+        case 'bye':
+          setRemoteTabs((prev) => prev.filter((remote) => remote.id !== message.tabId));
+          break;
+      }
+    });
+    if (!mirror) {
+      addLog({ type: 'error', data: 'Tab mirroring needs BroadcastChannel, which this browser does not support' });
+      return;
+    }
+
+    mirrorRef.current = mirror;
+    mirror.post({ kind: 'hello', tab: tabRef.current });
+
+    const leave = () => mirror.post({ kind: 'bye', tabId: tabRef.current.id });
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      leave();
+      mirror.close();
+      mirrorRef.current = null;
+      setRemoteTabs([]);
+    };
+  }, [isMirroring, addLog]);
+
+  // Keep the other tabs' view of this tab's route and connection current
+  useEffect(() => {
+    mirrorRef.current?.post({ kind: 'state', tab });
+  }, [tab]);
+
   // Convert chainId to hex string for logging
   const currentChain = chainId ? `0x${chainId.toString(16)}` : undefined;
 
-  // Auto-log connection events
+  // Auto-log connection events, with the applied connector options that produced the connection
   useEffect(() => {
     if (isConnected && connectedAddress && currentChain) {
       addLog({
         type: 'connect',
-        data: { chainId: currentChain },
+        source: 'wagmi',
+        data: {
+          chainId: currentChain,
+          connector: connector?.id,
+          options:
+            connector?.type === 'coinbaseWallet' ? describeCoinbaseWalletOptions(coinbaseWallet, keysUrl) : undefined,
+        },
       });
       addLog({
         type: 'accountsChanged',
+        source: 'wagmi',
         data: [connectedAddress],
       });
     }
-  }, [isConnected, connectedAddress, currentChain, addLog]);
+  }, [isConnected, connectedAddress, currentChain, connector, coinbaseWallet, keysUrl, addLog]);
 
   // Auto-log chain changes
   useEffect(() => {
     if (isConnected && currentChain) {
       addLog({
         type: 'chainChanged',
+        source: 'wagmi',
         data: currentChain,
       });
     }
   }, [currentChain, isConnected, addLog]);
 
+  // Record the events the active connector's provider actually emits, alongside the wagmi-derived entries
+  useEffect(() => {
+    if (!connector) return;
+
+    let unsubscribe: (() => void) | undefined;
+    let isCancelled = false;
+    connector
+      .getProvider()
+      .then((provider) => {
+        if (isCancelled || !provider) return;
+        unsubscribe = subscribeProviderEvents(provider as ProviderEventEmitter, (type, data) =>
+          addLog({ type, source: 'provider', data }),
+        );
+      })
+      .catch((error) => {
+        addLog({
+          type: 'error',
+          data: `Could not subscribe to ${connector.name} events: ${error.message}`,
+          cause: error,
+        });
+      });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe?.();
+    };
+  }, [connector, addLog]);
+
+  // Log every EIP-1193 request the connectors' providers handle
+  useEffect(
+    () =>
+      subscribeProviderRequests((trace, operation) =>
+        addLog({
+          type: 'request',
+          data: trace,
+          cause: trace.error,
+          operation: operation ? { ...operation, stage: 'requested' } : undefined,
+        }),
+      ),
+    [addLog],
+  );
+
   const [wasConnected, setWasConnected] = useState(false);
 
   useEffect(() => {
@@ -83,7 +283,8 @@ function LogContextProvider({ children }: { children: React.ReactNode }) {
     } else if (wasConnected && !isConnected) {
       addLog({
         type: 'disconnect',
-        data: { code: 4900, message: 'User disconnected' },
+        source: 'wagmi',
+        data: 'Account disconnected',
       });
       setWasConnected(false);
     }
@@ -94,22 +295,48 @@ function LogContextProvider({ children }: { children: React.ReactNode }) {
       addLog,
       clearLogs,
       eventLogs,
+      isMirroring,
+      setMirroring,
+      tab,
+      remoteTabs,
+      remoteLogs,
+      clearRemoteLogs,
     }),
-    [addLog, clearLogs, eventLogs],
+    [addLog, clearLogs, eventLogs, isMirroring, setMirroring, tab, remoteTabs, remoteLogs, clearRemoteLogs],
   );
 
   return <LogContext.Provider value={value}>{children}</LogContext.Provider>;
 }
 
 export function WAGMIProvider({ children }: { children: React.ReactNode }) {
-  const { appName, appLogoUrl, keysUrl } = useConfig();
+  const {
+    appName,
+    appLogoUrl,
+    keysUrl,
+    coinbaseWallet,
+    connectors,
+    customChains,
+    transportOverrides,
+    disabledChainIds,
+  } = useConfig();
 
   // Recreate config when any parameter changes
   // This will cause reconnection, but it's the only way to update connector metadata
   const wagmiConfig = useMemo(() => {
+    const options = {
+      appName,
+      appLogoUrl,
+      keysUrl,
+      coinbaseWallet,
+      connectors,
+      customChains,
+      transportOverrides,
+      disabledChainIds,
+    };
+    // RPC URLs and the WalletConnect project ID can hold keys, so only the app metadata is logged
     console.log('Creating WAGMI config with:', { appName, appLogoUrl, keysUrl });
-    return createWagmiConfig({ appName, appLogoUrl, keysUrl });
-  }, [appName, appLogoUrl, keysUrl]);
+    return createWagmiConfig(options);
+  }, [appName, appLogoUrl, keysUrl, coinbaseWallet, connectors, customChains, transportOverrides, disabledChainIds]);
 
   return (
     <QueryClientProvider client={queryClient}>
@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PlaygroundConfig } from '../../lib/config/persistence';
+import type { PaymasterSettings } from '../../lib/paymaster/types';
+import {
+  DEFAULT_PROFILES,
+  PROFILES_STORAGE_KEY,
+  createProfileId,
+  parseProfiles,
+  type ConfigProfile,
+} from '../../lib/config/profiles';
+
+/**
+ * Hook to manage named config profiles stored in localStorage
+ * Seeds the default profiles when nothing has been stored yet
+ */
+export function useConfigProfiles() {
+  const [profiles, setProfiles] = useState<ConfigProfile[]>(DEFAULT_PROFILES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored !== null) {
+      setProfiles(parseProfiles(stored));
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) {
+      localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    }
+  }, [isLoaded, profiles]);
+
+  const createProfile = useCallback((name: string, config: PlaygroundConfig, paymaster: PaymasterSettings | null) => {
+    const profile: ConfigProfile = { id: createProfileId(), name, config, paymaster, updatedAt: Date.now() };
+    setProfiles((current) => [...current, profile]);
+    return profile;
+  }, []);
+
+  const cloneProfile = useCallback((id: string) => {
+    setProfiles((current) => {
+      const source = current.find((profile) => profile.id === id);
+      if (!source) return current;
+      return [...current, { ...source, id: createProfileId(), name: `${source.name} copy`, updatedAt: Date.now() }];
+    });
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles((current) => current.filter((profile) => profile.id !== id));
+  }, []);
+
+  // Imported profiles get fresh IDs so they never overwrite an existing profile
+  const importProfiles = useCallback((json: string) => {
+    const imported = parseProfiles(json).map((profile) => ({ ...profile, id: createProfileId() }));
+    setProfiles((current) => [...current, ...imported]);
+    return imported;
+  }, []);
+
+  const exportProfiles = useCallback(
+    (ids?: string[]) => {
+      const selected = ids ? profiles.filter((profile) => ids.includes(profile.id)) : profiles;
+      return JSON.stringify(selected.length === 1 ? selected[0] : selected, null, 2);
+    },
+    [profiles],
+  );
+
+  return { profiles, createProfile, cloneProfile, deleteProfile, importProfiles, exportProfiles };
+}
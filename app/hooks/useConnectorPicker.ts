@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useConnect, type Connector } from 'wagmi';
+import { useWallet } from '../context/WagmiContextProvider';
+
+const SELECTED_CONNECTOR_STORAGE_KEY = 'smart-wallet-playground:connector';
+
+/**
+ * Hook to pick which configured connector to connect with
+ * Remembers the last pick and falls back to the first connector when it is no longer configured
+ */
+export function useConnectorPicker() {
+  const { addLog } = useWallet();
+  const { connectors, connect: wagmiConnect, isPending: isConnecting } = useConnect();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedId(localStorage.getItem(SELECTED_CONNECTOR_STORAGE_KEY));
+  }, []);
+
+  const selectedConnector = connectors.find((connector) => connector.id === selectedId) ?? connectors[0];
+
+  const selectConnector = useCallback((connectorId: string) => {
+    setSelectedId(connectorId);
+    localStorage.setItem(SELECTED_CONNECTOR_STORAGE_KEY, connectorId);
+  }, []);
+
+  const connect = useCallback(
+    (connector: Connector) => {
+      selectConnector(connector.id);
+
+      wagmiConnect(
+        { connector },
+        {
+          onError: (error) => {
+            addLog({
+              type: 'error',
+              data: `Failed to connect with ${connector.name}: ${error.message}`,
+              cause: error,
+            });
+          },
+        },
+      );
+      addLog({
+        type: 'message',
+        data: `Connecting with ${connector.name}...`,
+      });
+    },
+    [selectConnector, wagmiConnect, addLog],
+  );
+
+  return { connectors, selectedConnector, selectConnector, connect, isConnecting };
+}
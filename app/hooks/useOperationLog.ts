@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useWaitForCallsStatus } from 'wagmi';
+import { useWallet, type NewEventLog } from '../context/WagmiContextProvider';
+import { clearActiveOperation, setActiveOperation } from '../config/providerTrace';
+import { createOperationId, type OperationRef, type OperationStage } from '../../lib/event-log/operations';
+
+/**
+ * Hook to log the stages of one user operation under a shared correlation ID.
+ * Wallet requests made between `start` and `complete` join the operation too
+ */
+export function useOperationLog(name: string) {
+  const { addLog } = useWallet();
+  const current = useRef<OperationRef | null>(null);
+
+  // Entries logged without a current operation are logged as-is
+  const log = useCallback(
+    (stage: OperationStage, entry: NewEventLog) => {
+      const operation = current.current;
+      addLog(operation ? { ...entry, operation: { ...operation, stage } } : entry);
+    },
+    [addLog],
+  );
+
+  // Starting again replaces any operation that never completed
+  const start = useCallback(
+    (entry: NewEventLog) => {
+      if (current.current) clearActiveOperation(current.current.id);
+
+      const operation = { id: createOperationId(), name };
+      current.current = operation;
+      setActiveOperation(operation);
+      log('initiated', entry);
+      return operation.id;
+    },
+    [name, log],
+  );
+
+  const complete = useCallback(
+    (stage: OperationStage, entry: NewEventLog) => {
+      log(stage, entry);
+      if (current.current) clearActiveOperation(current.current.id);
+      current.current = null;
+    },
+    [log],
+  );
+
+  useEffect(
+    () => () => {
+      if (current.current) clearActiveOperation(current.current.id);
+    },
+    [],
+  );
+
+  return useMemo(() => ({ start, log, complete }), [start, log, complete]);
+}
+
+export type OperationLog = ReturnType<typeof useOperationLog>;
+
+/**
+ * Hook to complete an operation once the wallet reports the outcome of its calls bundle.
+ * Returns the final calls status for display
+ */
+export function useOperationCallsStatus(operation: OperationLog, id: string | undefined, label: string) {
+  const { data: callsStatus } = useWaitForCallsStatus({ id });
+  const status = callsStatus?.status;
+  const transactionHash = callsStatus?.receipts?.[0]?.transactionHash;
+
+  useEffect(() => {
+    if (status === 'success') {
+      operation.complete('confirmed', { type: 'message', data: `${label} confirmed: ${transactionHash ?? id}` });
+    } else if (status === 'failure') {
+      operation.complete('failed', { type: 'error', data: `${label} failed onchain for calls ID: ${id}` });
+    }
+  }, [status, transactionHash, id, label, operation]);
+
+  return callsStatus;
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePaymasterSettings } from './usePaymasterSettings';
+
+/**
+ * Hook exposing the chains the paymaster proxy sponsors on
+ * Empty until the paymaster settings have loaded
+ */
+export function usePaymasterChains() {
+  const { settings } = usePaymasterSettings();
+  const chains = useMemo(() => settings?.chains ?? [], [settings]);
+
+  const isSponsoredChain = useCallback(
+    (chainId: number | undefined) => chainId !== undefined && chains.some((chain) => chain.chainId === chainId),
+    [chains],
+  );
+
+  const getChainName = useCallback(
+    (chainId: number) => chains.find((chain) => chain.chainId === chainId)?.name ?? `Chain ${chainId}`,
+    [chains],
+  );
+
+  return { chains, isSponsoredChain, getChainName };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PaymasterSettings } from '../../lib/paymaster/types';
+
+const SETTINGS_ENDPOINT = '/api/paymaster/settings';
+
+/**
+ * Hook to read and update the server-side paymaster settings used by /api/paymaster
+ * Returns null settings until the first fetch resolves
+ */
+export function usePaymasterSettings() {
+  const [settings, setSettings] = useState<PaymasterSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(SETTINGS_ENDPOINT);
+      setSettings(await response.json());
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<PaymasterSettings>) => {
+    const response = await fetch(SETTINGS_ENDPOINT, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body.error || `HTTP ${response.status}`);
+    }
+
+    setSettings(body);
+    return body as PaymasterSettings;
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { settings, error, refresh, updateSettings };
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getRpcStats, subscribeRpcStats, type RpcStats } from '../config/rpcStats';
+
+const EMPTY_STATS: RpcStats = {};
+
+/**
+ * Hook to observe per-endpoint RPC latency and error counts recorded by the wagmi transports
+ */
+export function useRpcStats() {
+  return useSyncExternalStore(subscribeRpcStats, getRpcStats, () => EMPTY_STATS);
+}
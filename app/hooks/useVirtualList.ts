@@ -0,0 +1,95 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+type VirtualListOptions = {
+  count: number;
+  getKey: (index: number) => number;
+  estimateHeight: number;
+  overscan?: number;
+};
+
+/**
+ * Hook to render only the rows of a scrolling list that are near the viewport.
+ * Rows are measured once rendered, so they may change height (e.g. when expanded)
+ */
+export function useVirtualList({ count, getKey, estimateHeight, overscan = 10 }: VirtualListOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState(() => new Map<number, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const [rowObserver] = useState(() =>
+    typeof ResizeObserver === 'undefined'
+      ? null
+      : new ResizeObserver((entries) => {
+          const measured = entries.map((entry) => {
+            const row = entry.target as HTMLElement;
+            return [Number(row.dataset.virtualKey), row.offsetHeight] as const;
+          });
+          // Keep the same Map when nothing changed so the offsets aren't recomputed
+          setHeights((current) =>
+            measured.every(([key, height]) => current.get(key) === height)
+              ? current
+              : new Map([...current, ...measured]),
+          );
+        }),
+  );
+
+  useEffect(() => () => rowObserver?.disconnect(), [rowObserver]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // offsets[i] is the top of row i; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (let i = 0; i < count; i++) {
+      result.push(result[i] + (heights.get(getKey(i)) ?? estimateHeight));
+    }
+    return result;
+  }, [count, getKey, estimateHeight, heights]);
+
+  // First row whose bottom edge is below the top of the viewport
+  let start = 0;
+  let high = count;
+  while (start < high) {
+    const mid = (start + high) >> 1;
+    if (offsets[mid + 1] <= scrollTop) start = mid + 1;
+    else high = mid;
+  }
+  let end = start;
+  while (end < count && offsets[end] < scrollTop + viewportHeight) end++;
+  start = Math.max(0, start - overscan);
+  end = Math.min(count, end + overscan);
+
+  // Attach to each rendered row along with a data-virtual-key attribute
+  const measureRow = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element || !rowObserver) return;
+      rowObserver.observe(element);
+      return () => rowObserver.unobserve(element);
+    },
+    [rowObserver],
+  );
+
+  const onScroll = useCallback(() => {
+    if (containerRef.current) setScrollTop(containerRef.current.scrollTop);
+  }, []);
+
+  return {
+    containerRef,
+    onScroll,
+    measureRow,
+    indexes: Array.from({ length: end - start }, (_, i) => start + i),
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    totalHeight: offsets[count],
+  };
+}
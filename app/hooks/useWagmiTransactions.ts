@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 import {
   useSendTransaction,
   useWriteContract,
@@ -12,16 +12,12 @@ import {
 } from 'wagmi';
 import { parseEther, parseUnits, formatEther, formatUnits, erc20Abi } from 'viem';
 import { useWallet } from '../context/WagmiContextProvider';
-
-// USDC contract addresses for different chains
-export const USDC_ADDRESSES = {
-  1: '0xA0b86a33E6441E14d6D7a8e0Bd8a51F8080AE12B', // Mainnet
-  8453: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base
-  84532: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia
-} as const;
+import { CHAIN_TO_USDC_ADDRESS, USDC_DECIMALS } from '../config/chains';
+import { useOperationLog } from './useOperationLog';
 
 export function useWagmiTransactions() {
   const { addLog } = useWallet();
+  const ethOperation = useOperationLog('Send ETH');
   const { address, chainId } = useAccount();
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
@@ -45,6 +41,33 @@ export function useWagmiTransactions() {
     hash: usdcTxHash,
   });
 
+  // Follow each ETH send through to its receipt
+  useEffect(() => {
+    if (ethTxHash) {
+      ethOperation.log('submitted', { type: 'message', data: `ETH transaction submitted: ${ethTxHash}` });
+    }
+  }, [ethTxHash, ethOperation]);
+
+  useEffect(() => {
+    if (ethTxReceipt) {
+      const succeeded = ethTxReceipt.status === 'success';
+      ethOperation.complete(succeeded ? 'confirmed' : 'failed', {
+        type: succeeded ? 'message' : 'error',
+        data: `ETH transaction ${succeeded ? 'confirmed' : 'reverted'}: ${ethTxReceipt.transactionHash}`,
+      });
+    }
+  }, [ethTxReceipt, ethOperation]);
+
+  useEffect(() => {
+    if (ethTxError) {
+      ethOperation.complete('failed', {
+        type: 'error',
+        data: `ETH transaction failed: ${ethTxError.message}`,
+        cause: ethTxError,
+      });
+    }
+  }, [ethTxError, ethOperation]);
+
   // Send ETH transaction
   const sendETH = useCallback(
     async (to: string, amount: string) => {
@@ -54,21 +77,22 @@ export function useWagmiTransactions() {
         }
 
         const value = parseEther(amount);
-        addLog({ type: 'message', data: `Sending ${amount} ETH to ${to}` });
+        ethOperation.start({ type: 'message', data: `Sending ${amount} ETH to ${to}` });
 
         sendTransaction({
           to: to as `0x${string}`,
           value,
         });
       } catch (error) {
-        addLog({
+        ethOperation.complete('failed', {
           type: 'error',
           data: `ETH transaction failed: ${error}`,
+          cause: error,
         });
         throw error;
       }
     },
-    [address, sendTransaction, addLog],
+    [address, sendTransaction, ethOperation],
   );
 
   // Send USDC transaction
@@ -79,13 +103,12 @@ export function useWagmiTransactions() {
           throw new Error('Wallet not connected or chain not detected');
         }
 
-        const usdcAddress = USDC_ADDRESSES[chainId as keyof typeof USDC_ADDRESSES];
+        const usdcAddress = CHAIN_TO_USDC_ADDRESS[chainId];
         if (!usdcAddress) {
           throw new Error(`USDC not supported on chain ${chainId}`);
         }
 
-        // USDC has 6 decimals
-        const value = parseUnits(amount, 6);
+        const value = parseUnits(amount, USDC_DECIMALS);
         addLog({ type: 'message', data: `Sending ${amount} USDC to ${to}` });
 
         writeContract({
@@ -98,6 +121,7 @@ export function useWagmiTransactions() {
         addLog({
           type: 'error',
           data: `USDC transaction failed: ${error}`,
+          cause: error,
         });
         throw error;
       }
@@ -112,7 +136,7 @@ export function useWagmiTransactions() {
         return '0';
       }
 
-      const usdcAddress = USDC_ADDRESSES[chainId as keyof typeof USDC_ADDRESSES];
+      const usdcAddress = CHAIN_TO_USDC_ADDRESS[chainId];
       if (!usdcAddress) {
         return '0';
       }
@@ -124,12 +148,12 @@ export function useWagmiTransactions() {
         args: [address],
       });
 
-      // Format from 6 decimals to human readable
-      return formatUnits(balance, 6);
+      return formatUnits(balance, USDC_DECIMALS);
     } catch (error) {
       addLog({
         type: 'error',
         data: `Failed to get USDC balance: ${error}`,
+        cause: error,
       });
       return '0';
     }
@@ -159,6 +183,7 @@ export function useWagmiTransactions() {
         addLog({
           type: 'error',
           data: `Message signing failed: ${error}`,
+          cause: error,
         });
         throw error;
       }
@@ -4,6 +4,7 @@ import { Sidebar } from './components/navigation/Sidebar';
 import { WAGMIProvider } from './context/WagmiContextProvider';
 import { ConfigProvider } from './context/ConfigContext';
 import { GlobalHeader } from './components/global/GlobalHeader';
+import { SharedConfigPrompt } from './components/global/SharedConfigPrompt';
 
 export const metadata: Metadata = {
   title: 'Smart Wallet Playground',
@@ -34,6 +35,9 @@ export default function RootLayout({
 
                 {/* Floating Global Header */}
                 <GlobalHeader />
+
+                {/* Confirmation for a config opened from a share link */}
+                <SharedConfigPrompt />
               </div>
             </div>
           </WAGMIProvider>
@@ -0,0 +1,83 @@
+import { defineChain, numberToHex, type Chain } from 'viem';
+import { LOCAL_DEVNET_CHAIN_ID } from '../../app/config/chains';
+
+// Chain IDs createWagmiConfig always includes; custom chains can't shadow them
+export const BUILT_IN_CHAIN_IDS = [8453, 1, 84532, LOCAL_DEVNET_CHAIN_ID];
+
+export type CustomChain = {
+  id: number;
+  name: string;
+  rpcUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  explorerUrl?: string;
+  testnet?: boolean;
+};
+
+function isHttpUrl(value: string) {
+  return /^https?:\/\/\S+$/.test(value);
+}
+
+/**
+ * Check a custom chain before it is saved.
+ * Returns an error message, or null when the chain is usable.
+ */
+export function validateCustomChain(chain: CustomChain): string | null {
+  if (!Number.isInteger(chain.id) || chain.id <= 0) return `Invalid chain ID: ${chain.id}`;
+  if (BUILT_IN_CHAIN_IDS.includes(chain.id)) return `Chain ${chain.id} is already built in`;
+  if (!chain.name.trim()) return 'Chain name is required';
+  if (!isHttpUrl(chain.rpcUrl)) return `Invalid RPC URL: ${chain.rpcUrl}`;
+  if (chain.explorerUrl && !isHttpUrl(chain.explorerUrl)) return `Invalid explorer URL: ${chain.explorerUrl}`;
+  if (!chain.nativeCurrency.symbol.trim()) return 'Native currency symbol is required';
+  if (!Number.isInteger(chain.nativeCurrency.decimals) || chain.nativeCurrency.decimals < 0) {
+    return `Invalid native currency decimals: ${chain.nativeCurrency.decimals}`;
+  }
+  return null;
+}
+
+// Drops anything malformed so a bad localStorage entry can't break the wagmi config
+export function parseCustomChains(json: string | null): CustomChain[] {
+  if (!json) return [];
+
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter(isValidCustomChain) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isValidCustomChain(value: unknown): value is CustomChain {
+  try {
+    return validateCustomChain(value as CustomChain) === null;
+  } catch {
+    return false; // Missing fields
+  }
+}
+
+export function toViemChain(chain: CustomChain): Chain {
+  return defineChain({
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: { default: { http: [chain.rpcUrl] } },
+    ...(chain.explorerUrl && {
+      blockExplorers: { default: { name: `${chain.name} Explorer`, url: chain.explorerUrl } },
+    }),
+    testnet: chain.testnet,
+  });
+}
+
+// EIP-3085 parameters for wallet_addEthereumChain
+export function toAddEthereumChainParameter(chain: CustomChain) {
+  return {
+    chainId: numberToHex(chain.id),
+    chainName: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: [chain.rpcUrl],
+    ...(chain.explorerUrl && { blockExplorerUrls: [chain.explorerUrl] }),
+  };
+}
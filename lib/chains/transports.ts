@@ -0,0 +1,34 @@
+export type TransportOverride = {
+  urls: string[]; // Tried in order via viem `fallback`; empty uses the chain's public RPC
+  batch: boolean; // JSON-RPC batching on every URL
+  pollingInterval: number | null; // ms, null keeps the wagmi default
+};
+
+export type TransportOverrides = Record<number, TransportOverride>;
+
+export const DEFAULT_TRANSPORT_OVERRIDE: TransportOverride = {
+  urls: [],
+  batch: false,
+  pollingInterval: null,
+};
+
+/**
+ * Check a transport override before it is applied.
+ * Returns an error message, or null when the override is usable.
+ */
+export function validateTransportOverride(override: TransportOverride): string | null {
+  const invalidUrl = override.urls.find((url) => !/^https?:\/\/\S+$/.test(url));
+  if (invalidUrl) return `Invalid RPC URL: ${invalidUrl}`;
+  if (
+    override.pollingInterval !== null &&
+    (!Number.isInteger(override.pollingInterval) || override.pollingInterval <= 0)
+  ) {
+    return `Invalid polling interval: ${override.pollingInterval}`;
+  }
+  return null;
+}
+
+// An override equal to the default is the same as having none
+export function isDefaultTransportOverride(override: TransportOverride) {
+  return override.urls.length === 0 && !override.batch && override.pollingInterval === null;
+}
@@ -0,0 +1,97 @@
+export type SdkVersion = '3' | '4';
+
+export type WalletPreference = 'all' | 'smartWalletOnly' | 'eoaOnly';
+
+export const WALLET_PREFERENCES: WalletPreference[] = ['all', 'smartWalletOnly', 'eoaOnly'];
+
+export type AttributionMode = 'none' | 'auto' | 'dataSuffix';
+
+export const ATTRIBUTION_MODES: AttributionMode[] = ['none', 'auto', 'dataSuffix'];
+
+// Everything the coinbaseWallet connector accepts besides app metadata and keys URL
+export type CoinbaseWalletOptions = {
+  version: SdkVersion;
+  preferredChainId: number | null; // Listed first in appChainIds (v4) or used as the fallback chain (v3)
+
+  // Version 4
+  preference: WalletPreference;
+  attribution: AttributionMode; // Smart Wallet only
+  dataSuffix: string; // 16 byte hex, used when attribution is 'dataSuffix'
+
+  // Version 3
+  darkMode: boolean;
+  headlessMode: boolean;
+  overrideIsMetaMask: boolean;
+  enableMobileWalletLink: boolean;
+  jsonRpcUrl: string; // Empty uses the preferred chain's RPC
+};
+
+export const DEFAULT_COINBASE_WALLET_OPTIONS: CoinbaseWalletOptions = {
+  version: '4',
+  preferredChainId: null,
+  preference: 'smartWalletOnly',
+  attribution: 'none',
+  dataSuffix: '',
+  darkMode: false,
+  headlessMode: false,
+  overrideIsMetaMask: false,
+  enableMobileWalletLink: false,
+  jsonRpcUrl: '',
+};
+
+/**
+ * Check connector options before they are applied.
+ * Returns an error message, or null when the options are usable.
+ */
+export function validateCoinbaseWalletOptions(options: CoinbaseWalletOptions): string | null {
+  if (options.version !== '3' && options.version !== '4') return `Invalid SDK version: ${options.version}`;
+  if (!WALLET_PREFERENCES.includes(options.preference)) return `Invalid preference: ${options.preference}`;
+  if (!ATTRIBUTION_MODES.includes(options.attribution)) return `Invalid attribution: ${options.attribution}`;
+  if (options.attribution === 'dataSuffix' && !/^0x[0-9a-fA-F]{32}$/.test(options.dataSuffix)) {
+    return `Attribution data suffix must be 16 bytes of hex: ${options.dataSuffix}`;
+  }
+  if (
+    options.preferredChainId !== null &&
+    (!Number.isInteger(options.preferredChainId) || options.preferredChainId <= 0)
+  ) {
+    return `Invalid preferred chain ID: ${options.preferredChainId}`;
+  }
+  if (options.jsonRpcUrl && !/^https?:\/\/\S+$/.test(options.jsonRpcUrl)) {
+    return `Invalid JSON-RPC URL: ${options.jsonRpcUrl}`;
+  }
+  return null;
+}
+
+// Falls back to the defaults when stored options are malformed or from an older version
+export function parseCoinbaseWalletOptions(value: unknown): CoinbaseWalletOptions {
+  if (!value || typeof value !== 'object') return DEFAULT_COINBASE_WALLET_OPTIONS;
+
+  const options = { ...DEFAULT_COINBASE_WALLET_OPTIONS, ...value } as CoinbaseWalletOptions;
+  return validateCoinbaseWalletOptions(options) === null ? options : DEFAULT_COINBASE_WALLET_OPTIONS;
+}
+
+/**
+ * The options that actually reach the SDK for the selected version,
+ * as shown in the event log for each connection.
+ */
+export function describeCoinbaseWalletOptions(options: CoinbaseWalletOptions, keysUrl: string) {
+  if (options.version === '3') {
+    return {
+      version: options.version,
+      preferredChainId: options.preferredChainId,
+      darkMode: options.darkMode,
+      headlessMode: options.headlessMode,
+      overrideIsMetaMask: options.overrideIsMetaMask,
+      enableMobileWalletLink: options.enableMobileWalletLink,
+      jsonRpcUrl: options.jsonRpcUrl || null,
+    };
+  }
+
+  return {
+    version: options.version,
+    preferredChainId: options.preferredChainId,
+    preference: options.preference,
+    keysUrl,
+    attribution: options.attribution === 'dataSuffix' ? options.dataSuffix : options.attribution,
+  };
+}
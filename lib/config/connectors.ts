@@ -0,0 +1,56 @@
+import { isAddress } from 'viem';
+
+export type ConnectorKind = 'coinbaseWallet' | 'injected' | 'walletConnect' | 'mock' | 'simulated';
+
+export const CONNECTOR_KINDS: { kind: ConnectorKind; label: string }[] = [
+  { kind: 'coinbaseWallet', label: 'Coinbase Smart Wallet' },
+  { kind: 'injected', label: 'Injected (EIP-6963)' },
+  { kind: 'walletConnect', label: 'WalletConnect' },
+  { kind: 'mock', label: 'Mock' },
+  { kind: 'simulated', label: 'Simulated Wallet (offline)' },
+];
+
+export type ConnectorSettings = {
+  enabled: ConnectorKind[];
+  walletConnectProjectId: string; // Required for the WalletConnect connector
+  mockAccounts: string[]; // Addresses the mock connector reports as connected
+};
+
+export const DEFAULT_CONNECTOR_SETTINGS: ConnectorSettings = {
+  enabled: ['coinbaseWallet'],
+  walletConnectProjectId: '',
+  mockAccounts: ['0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'], // First Anvil/Hardhat dev account
+};
+
+/**
+ * Check connector settings before they are applied.
+ * Returns an error message, or null when the settings are usable.
+ */
+export function validateConnectorSettings(settings: ConnectorSettings): string | null {
+  if (settings.enabled.length === 0) return 'Enable at least one connector';
+
+  const unknown = settings.enabled.find((kind) => !CONNECTOR_KINDS.some((entry) => entry.kind === kind));
+  if (unknown) return `Unknown connector: ${unknown}`;
+
+  if (settings.enabled.includes('walletConnect') && !settings.walletConnectProjectId.trim()) {
+    return 'WalletConnect needs a project ID';
+  }
+  if (settings.enabled.includes('mock')) {
+    if (settings.mockAccounts.length === 0) return 'The mock connector needs at least one account';
+    const invalid = settings.mockAccounts.find((account) => !isAddress(account));
+    if (invalid) return `Invalid mock account: ${invalid}`;
+  }
+  return null;
+}
+
+// Falls back to the defaults when stored settings are malformed or from an older version
+export function parseConnectorSettings(value: unknown): ConnectorSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_CONNECTOR_SETTINGS;
+
+  try {
+    const settings = { ...DEFAULT_CONNECTOR_SETTINGS, ...value } as ConnectorSettings;
+    return validateConnectorSettings(settings) === null ? settings : DEFAULT_CONNECTOR_SETTINGS;
+  } catch {
+    return DEFAULT_CONNECTOR_SETTINGS; // Fields of the wrong type
+  }
+}
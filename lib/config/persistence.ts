@@ -0,0 +1,159 @@
+import { LOCAL_DEVNET_CHAIN_ID } from '../../app/config/chains';
+import { parseCustomChains, type CustomChain } from '../chains/custom';
+import { validateTransportOverride, type TransportOverrides } from '../chains/transports';
+import {
+  DEFAULT_COINBASE_WALLET_OPTIONS,
+  parseCoinbaseWalletOptions,
+  type CoinbaseWalletOptions,
+} from './coinbaseWallet';
+import { DEFAULT_CONNECTOR_SETTINGS, parseConnectorSettings, type ConnectorSettings } from './connectors';
+
+export const CONFIG_STORAGE_KEY = 'smart-wallet-playground:config';
+
+// Where custom chains were stored on their own, before they became part of the config
+export const LEGACY_CUSTOM_CHAINS_STORAGE_KEY = 'smart-wallet-playground:custom-chains';
+
+// Query parameter carrying a shared config
+export const SHARE_CONFIG_PARAM = 'config';
+
+// Bumped when stored configs need migrating. 2: local devnet added, disabled by default
+export const PLAYGROUND_CONFIG_VERSION = 2;
+
+export type PlaygroundConfig = {
+  version: number;
+  appName: string;
+  appLogoUrl: string;
+  keysUrl: string;
+  coinbaseWallet: CoinbaseWalletOptions;
+  connectors: ConnectorSettings;
+  transportOverrides: TransportOverrides;
+  disabledChainIds: number[]; // Built-in or custom chains left out of the wagmi config
+  customChains: CustomChain[];
+};
+
+export const DEFAULT_PLAYGROUND_CONFIG: PlaygroundConfig = {
+  version: PLAYGROUND_CONFIG_VERSION,
+  appName: 'Smart Wallet Playground',
+  appLogoUrl: '/favicon.ico',
+  keysUrl: 'https://keys.coinbase.com/connect',
+  coinbaseWallet: DEFAULT_COINBASE_WALLET_OPTIONS,
+  connectors: DEFAULT_CONNECTOR_SETTINGS,
+  transportOverrides: {},
+  disabledChainIds: [LOCAL_DEVNET_CHAIN_ID], // Until a node is running
+  customChains: [],
+};
+
+function parseTransportOverrides(value: unknown): TransportOverrides {
+  if (!value || typeof value !== 'object') return {};
+
+  return Object.fromEntries(
+    Object.entries(value).filter(([chainId, override]) => {
+      try {
+        return Number.isInteger(Number(chainId)) && validateTransportOverride(override) === null;
+      } catch {
+        return false; // Missing fields
+      }
+    }),
+  );
+}
+
+/**
+ * Read a stored or shared config, falling back to the defaults field by field
+ * so configs saved by older versions of the playground still load.
+ */
+export function parsePlaygroundConfig(json: string | null): PlaygroundConfig | null {
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const readString = (key: 'appName' | 'appLogoUrl' | 'keysUrl') =>
+      typeof parsed[key] === 'string' ? parsed[key] : DEFAULT_PLAYGROUND_CONFIG[key];
+
+    // Configs saved before the devnet existed would otherwise enable it
+    const disabledChainIds: number[] = Array.isArray(parsed.disabledChainIds)
+      ? parsed.disabledChainIds.filter(Number.isInteger)
+      : [...DEFAULT_PLAYGROUND_CONFIG.disabledChainIds];
+    if (!(parsed.version >= 2) && !disabledChainIds.includes(LOCAL_DEVNET_CHAIN_ID)) {
+      disabledChainIds.push(LOCAL_DEVNET_CHAIN_ID);
+    }
+
+    return {
+      version: PLAYGROUND_CONFIG_VERSION,
+      appName: readString('appName'),
+      appLogoUrl: readString('appLogoUrl'),
+      keysUrl: readString('keysUrl'),
+      coinbaseWallet: parseCoinbaseWalletOptions(parsed.coinbaseWallet),
+      connectors: parseConnectorSettings(parsed.connectors),
+      transportOverrides: parseTransportOverrides(parsed.transportOverrides),
+      disabledChainIds,
+      customChains: parseCustomChains(JSON.stringify(parsed.customChains ?? [])),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Build a config from custom chains saved under the legacy key, for users who never saved a full config
+export function migrateLegacyCustomChains(json: string | null): PlaygroundConfig | null {
+  const customChains = parseCustomChains(json);
+  return customChains.length > 0 ? { ...DEFAULT_PLAYGROUND_CONFIG, customChains } : null;
+}
+
+/**
+ * Strip what shouldn't leave this browser from a config that is shared or exported:
+ * RPC URLs, which usually carry provider API keys, and the WalletConnect project ID.
+ */
+export function redactPlaygroundConfig(config: PlaygroundConfig): PlaygroundConfig {
+  return {
+    ...config,
+    connectors: { ...config.connectors, walletConnectProjectId: '' },
+    transportOverrides: Object.fromEntries(
+      Object.entries(config.transportOverrides).map(([chainId, override]) => [chainId, { ...override, urls: [] }]),
+    ),
+  };
+}
+
+// Fill in the secrets a shared config was stripped of from this browser's config
+export function withLocalSecrets(shared: PlaygroundConfig, local: PlaygroundConfig): PlaygroundConfig {
+  return {
+    ...shared,
+    connectors: {
+      ...shared.connectors,
+      walletConnectProjectId: shared.connectors.walletConnectProjectId || local.connectors.walletConnectProjectId,
+    },
+    transportOverrides: Object.fromEntries(
+      Object.entries(shared.transportOverrides).map(([chainId, override]) => [
+        chainId,
+        {
+          ...override,
+          urls: override.urls.length > 0 ? override.urls : (local.transportOverrides[Number(chainId)]?.urls ?? []),
+        },
+      ]),
+    ),
+  };
+}
+
+// base64url so the config survives being pasted into chat tools and issue trackers
+export function encodePlaygroundConfig(config: PlaygroundConfig): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(config));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodePlaygroundConfig(encoded: string): PlaygroundConfig | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return parsePlaygroundConfig(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+export function createShareUrl(config: PlaygroundConfig, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set(SHARE_CONFIG_PARAM, encodePlaygroundConfig(redactPlaygroundConfig(config)));
+  return url.toString();
+}
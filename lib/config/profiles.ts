@@ -0,0 +1,72 @@
+import type { PaymasterSettings } from '../paymaster/types';
+import { DEFAULT_PLAYGROUND_CONFIG, parsePlaygroundConfig, type PlaygroundConfig } from './persistence';
+
+export const PROFILES_STORAGE_KEY = 'smart-wallet-playground:profiles';
+
+export type ConfigProfile = {
+  id: string;
+  name: string;
+  config: PlaygroundConfig;
+  paymaster: PaymasterSettings | null; // null leaves the server-side paymaster settings untouched on activation
+  updatedAt: number;
+};
+
+export const DEFAULT_PROFILES: ConfigProfile[] = [
+  {
+    id: 'production',
+    name: 'Production keys',
+    config: DEFAULT_PLAYGROUND_CONFIG,
+    paymaster: null,
+    updatedAt: 0,
+  },
+  {
+    id: 'local-keys',
+    name: 'Local keys',
+    config: { ...DEFAULT_PLAYGROUND_CONFIG, keysUrl: 'http://localhost:3005/connect' },
+    paymaster: null,
+    updatedAt: 0,
+  },
+];
+
+export function createProfileId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isPaymasterSettings(value: unknown): value is PaymasterSettings {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as PaymasterSettings;
+  return typeof settings.mode === 'string' && typeof settings.policy === 'object' && Array.isArray(settings.chains);
+}
+
+function parseProfile(value: unknown): ConfigProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const profile = value as Partial<ConfigProfile>;
+  if (typeof profile.name !== 'string' || !profile.name.trim()) return null;
+
+  const config = parsePlaygroundConfig(JSON.stringify(profile.config ?? null));
+  if (!config) return null;
+
+  return {
+    id: typeof profile.id === 'string' && profile.id ? profile.id : createProfileId(),
+    name: profile.name.trim(),
+    config,
+    paymaster: isPaymasterSettings(profile.paymaster) ? profile.paymaster : null,
+    updatedAt: typeof profile.updatedAt === 'number' ? profile.updatedAt : Date.now(),
+  };
+}
+
+/**
+ * Read stored or imported profiles. Accepts a single exported profile or a list,
+ * dropping entries without a name or config.
+ */
+export function parseProfiles(json: string | null): ConfigProfile[] {
+  if (!json) return [];
+
+  try {
+    const parsed = JSON.parse(json);
+    const entries: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    return entries.map(parseProfile).filter((profile): profile is ConfigProfile => profile !== null);
+  } catch {
+    return [];
+  }
+}
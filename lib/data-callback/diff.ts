@@ -0,0 +1,30 @@
+export type JsonChange = {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Structural diff of two JSON values, reported as dotted paths
+ * (array indexes included, e.g. `calls.0.to`).
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return [...keys].flatMap((key) => {
+      const childPath = path ? `${path}.${key}` : key;
+
+      if (!(key in before)) return [{ path: childPath, kind: 'added' as const, after: after[key] }];
+      if (!(key in after)) return [{ path: childPath, kind: 'removed' as const, before: before[key] }];
+      return diffJson(before[key], after[key], childPath);
+    });
+  }
+
+  return before === after ? [] : [{ path: path || '(root)', kind: 'changed', before, after }];
+}
@@ -0,0 +1,181 @@
+import { numberToHex } from 'viem';
+import { DEFAULT_CALL_REWRITE, type CallRewrite } from './rewrite';
+import { DEFAULT_CALLBACK_AUTH, type CallbackAuth } from './signing';
+import type { CallbackCall, CallbackRequest, ErrorResponse, SuccessResponse } from './types';
+
+// Mirrors the "Callback Presets" form in DataCallback so the UI state can be posted as-is
+export type CallbackPreset = {
+  calls: {
+    enabled: boolean;
+    items: CallbackCall[];
+  };
+  capabilities: {
+    enabled: boolean;
+    paymasterUrl: string;
+  };
+  errors: {
+    enabled: boolean;
+    name: {
+      firstName: string;
+      lastName: string;
+    };
+    email: string;
+    phoneNumber: {
+      countryCode: string;
+      number: string;
+    };
+    physicalAddress: {
+      address1: string;
+      address2: string;
+      city: string;
+      state: string;
+      postalCode: string;
+      country: string;
+    };
+    onchainAddress: string;
+  };
+  rewrite: CallRewrite;
+  auth: CallbackAuth;
+};
+
+export const DEFAULT_CALLBACK_PRESET: CallbackPreset = {
+  calls: {
+    enabled: false,
+    items: [],
+  },
+  capabilities: {
+    enabled: false,
+    paymasterUrl: '',
+  },
+  errors: {
+    enabled: false,
+    name: {
+      firstName: '',
+      lastName: '',
+    },
+    email: '',
+    phoneNumber: {
+      countryCode: '',
+      number: '',
+    },
+    physicalAddress: {
+      address1: '',
+      address2: '',
+      city: '',
+      state: '',
+      postalCode: '',
+      country: '',
+    },
+    onchainAddress: '',
+  },
+  rewrite: DEFAULT_CALL_REWRITE,
+  auth: DEFAULT_CALLBACK_AUTH,
+};
+
+// Fill fields missing from `value` with the defaults; null when a field has the wrong type
+function mergeOverDefaults<T>(defaults: T, value: unknown): T | null {
+  if (value === undefined) return defaults;
+  if (Array.isArray(defaults) || defaults === null || typeof defaults !== 'object') {
+    return typeof value === typeof defaults ? (value as T) : null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const merged: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const field = mergeOverDefaults(fallback, (value as Record<string, unknown>)[key]);
+    if (field === null) return null;
+    merged[key] = field;
+  }
+  return merged as T;
+}
+
+function isCallbackCall(value: unknown): value is CallbackCall {
+  if (!value || typeof value !== 'object') return false;
+  const { to, data, value: amount } = value as Partial<CallbackCall>;
+  return (
+    typeof to === 'string' &&
+    ['undefined', 'string'].includes(typeof data) &&
+    ['undefined', 'string'].includes(typeof amount)
+  );
+}
+
+/**
+ * Read a preset posted by the UI, filling in fields older clients don't send.
+ * Returns null when it isn't a preset.
+ */
+export function parseCallbackPreset(value: unknown): CallbackPreset | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const preset = mergeOverDefaults(DEFAULT_CALLBACK_PRESET, value);
+  const items: unknown = (value as { calls?: { items?: unknown } }).calls?.items ?? [];
+  if (!preset || !Array.isArray(items) || !items.every(isCallbackCall)) return null;
+  if (!['hmac-sha256', 'eip191'].includes(preset.auth.scheme)) return null;
+
+  return { ...preset, calls: { ...preset.calls, items } };
+}
+
+// Drop empty strings so only the fields the user actually filled in are returned
+function compact<T extends Record<string, string | undefined>>(fields: T): Partial<T> | undefined {
+  const entries = Object.entries(fields).filter(([, value]) => value);
+  return entries.length > 0 ? (Object.fromEntries(entries) as Partial<T>) : undefined;
+}
+
+/**
+ * Build the error payload configured in a preset, mapping the form field names
+ * onto the wallet's `ErrorResponse` shape. Returns undefined when no error is set.
+ */
+export function getPresetErrors(preset: CallbackPreset): ErrorResponse['errors'] | undefined {
+  if (!preset.errors.enabled) return undefined;
+
+  const { name, email, phoneNumber, physicalAddress, onchainAddress } = preset.errors;
+  const errors: ErrorResponse['errors'] = {
+    email: email || undefined,
+    onchainAddress: onchainAddress || undefined,
+    name: compact({ firstName: name.firstName, familyName: name.lastName }),
+    phoneNumber: compact({ number: phoneNumber.number, country: phoneNumber.countryCode }),
+    physicalAddress: compact({
+      address1: physicalAddress.address1,
+      address2: physicalAddress.address2,
+      city: physicalAddress.city,
+      state: physicalAddress.state,
+      postalCode: physicalAddress.postalCode,
+      countryCode: physicalAddress.country,
+    }),
+  };
+
+  const populated = Object.fromEntries(Object.entries(errors).filter(([, value]) => value !== undefined));
+  return Object.keys(populated).length > 0 ? populated : undefined;
+}
+
+function toCall(call: CallbackCall): CallbackCall {
+  return {
+    to: call.to,
+    ...(call.data && { data: call.data }),
+    // The form takes wei as a decimal string, the wallet expects hex quantities
+    ...(call.value && { value: call.value.startsWith('0x') ? call.value : numberToHex(BigInt(call.value)) }),
+  };
+}
+
+/**
+ * Apply the replacement calls and capabilities configured in a preset to a
+ * successful callback response. Returns the response untouched when neither is enabled.
+ */
+export function applyPresetOverrides(preset: CallbackPreset, response: SuccessResponse): SuccessResponse {
+  const calls = preset.calls.enabled ? preset.calls.items.map(toCall) : response.calls;
+
+  const capabilities =
+    preset.capabilities.enabled && preset.capabilities.paymasterUrl
+      ? { ...response.capabilities, paymasterService: { url: preset.capabilities.paymasterUrl } }
+      : response.capabilities;
+
+  return { ...response, calls, capabilities };
+}
+
+export function toSuccessResponse(requestData: CallbackRequest): SuccessResponse {
+  return {
+    calls: requestData.calls,
+    chainId: requestData.chainId,
+    version: requestData.version,
+    capabilities: requestData.capabilities,
+  };
+}
@@ -0,0 +1,108 @@
+import { decodeFunctionData, encodeFunctionData, erc20Abi, hexToNumber, isAddress, parseUnits, type Hex } from 'viem';
+import { CHAIN_TO_USDC_ADDRESS, USDC_DECIMALS } from '../../app/config/chains';
+import type { CallbackCall, CallbackRequest, SuccessResponse } from './types';
+
+// Server-side mutations applied to the batch once the submitted profile data passes validation
+export type CallRewrite = {
+  enabled: boolean;
+  shippingFee: {
+    enabled: boolean;
+    amount: string; // USDC, human readable
+    recipient: string;
+    domesticCountry: string;
+  };
+  redirectToOnchainAddress: boolean;
+  sponsor: {
+    enabled: boolean;
+    name: string;
+  };
+};
+
+export const DEFAULT_CALL_REWRITE: CallRewrite = {
+  enabled: false,
+  shippingFee: {
+    enabled: true,
+    amount: '0.05',
+    recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045',
+    domesticCountry: 'US',
+  },
+  redirectToOnchainAddress: false,
+  sponsor: {
+    enabled: false,
+    name: 'Smart Wallet Playground',
+  },
+};
+
+function redirectCall(call: CallbackCall, recipient: `0x${string}`): CallbackCall {
+  if (!call.data || call.data === '0x') {
+    return call.value ? { ...call, to: recipient } : call;
+  }
+
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data as Hex });
+    if (functionName !== 'transfer') return call;
+
+    return {
+      ...call,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient, args[1]] }),
+    };
+  } catch {
+    // Not an ERC-20 call, leave it alone
+    return call;
+  }
+}
+
+/**
+ * Rewrite the calls and capabilities of a successful callback response from the
+ * profile data the user submitted, the way a checkout adjusts an order.
+ * `paymasterBaseUrl` is the origin-qualified `/api/paymaster` endpoint of this app.
+ */
+export function applyCallRewrite(
+  rewrite: CallRewrite,
+  requestData: CallbackRequest,
+  response: SuccessResponse,
+  paymasterBaseUrl: string,
+): SuccessResponse {
+  if (!rewrite.enabled) return response;
+
+  const { requestedInfo } = requestData.capabilities.dataCallback;
+  let calls = response.calls;
+  let capabilities = response.capabilities;
+
+  const onchainAddress = requestedInfo?.onchainAddress;
+  if (rewrite.redirectToOnchainAddress && onchainAddress && isAddress(onchainAddress)) {
+    calls = calls.map((call) => redirectCall(call, onchainAddress));
+  }
+
+  const countryCode = requestedInfo?.physicalAddress?.physicalAddress.countryCode;
+  const usdcAddress = CHAIN_TO_USDC_ADDRESS[hexToNumber(requestData.chainId as Hex)];
+  if (
+    rewrite.shippingFee.enabled &&
+    countryCode &&
+    countryCode.toUpperCase() !== rewrite.shippingFee.domesticCountry.toUpperCase() &&
+    usdcAddress &&
+    isAddress(rewrite.shippingFee.recipient)
+  ) {
+    calls = [
+      ...calls,
+      {
+        to: usdcAddress,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [rewrite.shippingFee.recipient, parseUnits(rewrite.shippingFee.amount, USDC_DECIMALS)],
+        }),
+      },
+    ];
+  }
+
+  if (rewrite.sponsor.enabled) {
+    const sponsorName = rewrite.sponsor.name || DEFAULT_CALL_REWRITE.sponsor.name;
+    capabilities = {
+      ...capabilities,
+      paymasterService: { url: `${paymasterBaseUrl}/${encodeURIComponent(sponsorName)}` },
+    };
+  }
+
+  return { ...response, calls, capabilities };
+}
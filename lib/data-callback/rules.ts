@@ -0,0 +1,222 @@
+import type { ErrorResponse, RequestedInfo } from './types';
+
+export const RULE_FIELDS = [
+  'email',
+  'phoneNumber.number',
+  'phoneNumber.country',
+  'physicalAddress.address1',
+  'physicalAddress.address2',
+  'physicalAddress.city',
+  'physicalAddress.state',
+  'physicalAddress.postalCode',
+  'physicalAddress.countryCode',
+  'name.firstName',
+  'name.familyName',
+  'onchainAddress',
+] as const;
+
+export type RuleField = (typeof RULE_FIELDS)[number];
+
+type BaseRule = {
+  field: RuleField;
+  message: string;
+  enabled?: boolean;
+  // Only apply the rule when the submitted country (address or phone) is in this list
+  countries?: string[];
+};
+
+export type ValidationRule =
+  | (BaseRule & { type: 'regex'; pattern: string; flags?: string })
+  | (BaseRule & { type: 'minLength' | 'maxLength'; value: number })
+  // List entries starting with `*` match as suffixes, e.g. `*@example.com`
+  | (BaseRule & { type: 'allowList' | 'denyList'; values: string[] })
+  | (BaseRule & { type: 'postalCode' | 'phoneNumber' });
+
+export type CallbackRuleSet = {
+  name: string;
+  rules: ValidationRule[];
+};
+
+const RULE_TYPES = ['regex', 'minLength', 'maxLength', 'allowList', 'denyList', 'postalCode', 'phoneNumber'] as const;
+
+// Postal code formats keyed by ISO 3166-1 alpha-2 country code
+export const POSTAL_CODE_FORMATS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  JP: /^\d{3}-?\d{4}$/,
+  AU: /^\d{4}$/,
+  IN: /^\d{6}$/,
+  BR: /^\d{5}-?\d{3}$/,
+};
+
+// National significant number lengths (digits only) keyed by country code
+export const PHONE_NUMBER_FORMATS: Record<string, RegExp> = {
+  US: /^\d{10}$/,
+  CA: /^\d{10}$/,
+  GB: /^\d{10}$/,
+  DE: /^\d{10,11}$/,
+  FR: /^\d{9}$/,
+  NL: /^\d{9}$/,
+  JP: /^\d{10}$/,
+  AU: /^\d{9}$/,
+  IN: /^\d{10}$/,
+  BR: /^\d{10,11}$/,
+};
+
+// Matches the checks the route used to hardcode
+export const DEFAULT_RULE_SET: CallbackRuleSet = {
+  name: 'Playground defaults',
+  rules: [
+    { field: 'email', type: 'denyList', values: ['*@example.com'], message: 'Example.com emails are not allowed' },
+    { field: 'physicalAddress.postalCode', type: 'minLength', value: 5, message: 'Invalid postal code' },
+    { field: 'name.firstName', type: 'minLength', value: 2, message: 'First name too short' },
+    { field: 'phoneNumber.number', type: 'minLength', value: 10, message: 'Invalid phone number' },
+  ],
+};
+
+function getFieldValue(info: RequestedInfo, field: RuleField): string | undefined {
+  const [group, key] = field.split('.') as [string, string | undefined];
+
+  switch (group) {
+    case 'email':
+      return info.email;
+    case 'onchainAddress':
+      return info.onchainAddress;
+    case 'phoneNumber':
+      return info.phoneNumber?.[key as 'number' | 'country'];
+    case 'name':
+      return info.name?.[key as 'firstName' | 'familyName'];
+    case 'physicalAddress':
+      return info.physicalAddress?.physicalAddress[key as 'address1'];
+    default:
+      return undefined;
+  }
+}
+
+function getFieldCountry(info: RequestedInfo, field: RuleField): string | undefined {
+  const country = field.startsWith('phoneNumber')
+    ? info.phoneNumber?.country
+    : info.physicalAddress?.physicalAddress.countryCode;
+  return country?.toUpperCase();
+}
+
+function matchesListEntry(value: string, entry: string): boolean {
+  const normalized = value.toLowerCase();
+  const pattern = entry.toLowerCase();
+  return pattern.startsWith('*') ? normalized.endsWith(pattern.slice(1)) : normalized === pattern;
+}
+
+function passesRule(rule: ValidationRule, value: string, country: string | undefined): boolean {
+  switch (rule.type) {
+    case 'regex':
+      return new RegExp(rule.pattern, rule.flags).test(value);
+    case 'minLength':
+      return value.length >= rule.value;
+    case 'maxLength':
+      return value.length <= rule.value;
+    case 'allowList':
+      return rule.values.some((entry) => matchesListEntry(value, entry));
+    case 'denyList':
+      return !rule.values.some((entry) => matchesListEntry(value, entry));
+    case 'postalCode': {
+      const format = country && POSTAL_CODE_FORMATS[country];
+      return format ? format.test(value.trim()) : true;
+    }
+    case 'phoneNumber': {
+      const format = country && PHONE_NUMBER_FORMATS[country];
+      return format ? format.test(value.replace(/\D/g, '')) : true;
+    }
+  }
+}
+
+function setFieldError(errors: ErrorResponse['errors'], field: RuleField, message: string) {
+  const [group, key] = field.split('.') as [keyof ErrorResponse['errors'], string | undefined];
+
+  if (!key) {
+    if (!errors[group]) (errors as Record<string, unknown>)[group] = message;
+    return;
+  }
+
+  const nested = ((errors as Record<string, Record<string, string>>)[group] ??= {});
+  if (!nested[key]) nested[key] = message;
+}
+
+/**
+ * Evaluate a rule set against the submitted profile data.
+ * Empty fields are skipped and only the first failing rule per field is reported.
+ */
+export function evaluateRules(ruleSet: CallbackRuleSet, info: RequestedInfo): ErrorResponse['errors'] {
+  const errors: ErrorResponse['errors'] = {};
+
+  for (const rule of ruleSet.rules) {
+    if (rule.enabled === false) continue;
+
+    const value = getFieldValue(info, rule.field);
+    if (!value) continue;
+
+    const country = getFieldCountry(info, rule.field);
+    if (rule.countries?.length && !(country && rule.countries.map((c) => c.toUpperCase()).includes(country))) {
+      continue;
+    }
+
+    if (!passesRule(rule, value, country)) {
+      setFieldError(errors, rule.field, rule.message);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate untrusted JSON (from the rules panel or the API) into a rule set.
+ * Throws with a message pointing at the first offending rule.
+ */
+export function parseRuleSet(value: unknown): CallbackRuleSet {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as CallbackRuleSet).rules)) {
+    throw new Error('Rule set must be an object with a "rules" array');
+  }
+
+  const { name, rules } = value as CallbackRuleSet;
+
+  rules.forEach((rule, index) => {
+    const where = `Rule #${index + 1}`;
+
+    if (!RULE_FIELDS.includes(rule?.field)) {
+      throw new Error(`${where}: unknown field "${rule?.field}"`);
+    }
+    if (!RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${where}: unknown type "${rule.type}"`);
+    }
+    if (typeof rule.message !== 'string' || !rule.message) {
+      throw new Error(`${where}: "message" is required`);
+    }
+    if (rule.type === 'regex') {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch {
+        throw new Error(`${where}: invalid pattern "${rule.pattern}"`);
+      }
+    }
+    if ((rule.type === 'minLength' || rule.type === 'maxLength') && typeof rule.value !== 'number') {
+      throw new Error(`${where}: "value" must be a number`);
+    }
+    if (
+      (rule.type === 'allowList' || rule.type === 'denyList') &&
+      !(Array.isArray(rule.values) && rule.values.every((item) => typeof item === 'string'))
+    ) {
+      throw new Error(`${where}: "values" must be an array of strings`);
+    }
+    if (
+      rule.countries !== undefined &&
+      !(Array.isArray(rule.countries) && rule.countries.every((country) => typeof country === 'string'))
+    ) {
+      throw new Error(`${where}: "countries" must be an array of strings`);
+    }
+  });
+
+  return { name: typeof name === 'string' && name ? name : 'Custom rules', rules };
+}
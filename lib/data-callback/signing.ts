@@ -0,0 +1,95 @@
+import { bytesToHex, hexToBytes, isHex, stringToBytes, verifyMessage, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+export const CALLBACK_SECRET_HEADER = 'x-callback-secret';
+export const CALLBACK_SIGNATURE_HEADER = 'x-callback-signature';
+export const CALLBACK_SIGNATURE_SCHEME_HEADER = 'x-callback-signature-scheme';
+export const CALLBACK_SIGNER_HEADER = 'x-callback-signer';
+
+export type SignatureScheme = 'hmac-sha256' | 'eip191';
+
+export type CallbackAuth = {
+  requireSecret: boolean;
+  secret: string;
+  signResponses: boolean;
+  scheme: SignatureScheme;
+  // HMAC key for `hmac-sha256`, hex private key for `eip191`
+  signingKey: string;
+};
+
+export const DEFAULT_CALLBACK_AUTH: CallbackAuth = {
+  requireSecret: false,
+  secret: '',
+  signResponses: false,
+  scheme: 'hmac-sha256',
+  signingKey: '',
+};
+
+// Compare without short-circuiting so the check doesn't leak how much of the secret matched
+export function secretsMatch(provided: string | null, expected: string): boolean {
+  if (provided === null) return false;
+
+  const a = stringToBytes(provided);
+  const b = stringToBytes(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+async function hmacSha256(key: string, body: string): Promise<Hex> {
+  const cryptoKey = await crypto.subtle.importKey('raw', stringToBytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  return bytesToHex(new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, stringToBytes(body))));
+}
+
+export function getSignerAddress(signingKey: string): `0x${string}` | undefined {
+  if (!isHex(signingKey) || hexToBytes(signingKey).length !== 32) return undefined;
+  return privateKeyToAccount(signingKey).address;
+}
+
+/**
+ * Sign the exact response body and return the headers carrying the signature.
+ * Throws when the configured key can't be used with the selected scheme.
+ */
+export async function signCallbackBody(body: string, auth: CallbackAuth): Promise<Record<string, string>> {
+  if (!auth.signingKey) {
+    throw new Error('Response signing is enabled but no signing key is configured');
+  }
+
+  if (auth.scheme === 'hmac-sha256') {
+    return {
+      [CALLBACK_SIGNATURE_HEADER]: await hmacSha256(auth.signingKey, body),
+      [CALLBACK_SIGNATURE_SCHEME_HEADER]: auth.scheme,
+    };
+  }
+
+  if (!getSignerAddress(auth.signingKey)) {
+    throw new Error('EIP-191 signing requires a 32-byte hex private key');
+  }
+
+  const account = privateKeyToAccount(auth.signingKey as Hex);
+  return {
+    [CALLBACK_SIGNATURE_HEADER]: await account.signMessage({ message: body }),
+    [CALLBACK_SIGNATURE_SCHEME_HEADER]: auth.scheme,
+    [CALLBACK_SIGNER_HEADER]: account.address,
+  };
+}
+
+/**
+ * Check a signed response the same way a merchant-aware wallet would.
+ * Returns false when the signature header is missing or doesn't match.
+ */
+export async function verifyCallbackSignature(body: string, headers: Headers, auth: CallbackAuth): Promise<boolean> {
+  const signature = headers.get(CALLBACK_SIGNATURE_HEADER);
+  if (!signature || !isHex(signature)) return false;
+
+  if (auth.scheme === 'hmac-sha256') {
+    return secretsMatch(signature, await hmacSha256(auth.signingKey, body));
+  }
+
+  const signer = getSignerAddress(auth.signingKey);
+  return signer ? verifyMessage({ address: signer, message: body, signature }) : false;
+}
@@ -0,0 +1,90 @@
+export type RequestedInfo = {
+  email?: string;
+  phoneNumber?: {
+    number: string;
+    country: string;
+    isPrimary: boolean;
+  };
+  physicalAddress?: {
+    physicalAddress: {
+      address1: string;
+      address2?: string;
+      city: string;
+      state: string;
+      postalCode: string;
+      countryCode: string;
+      name?: {
+        firstName: string;
+        familyName: string;
+      };
+    };
+    isPrimary: boolean;
+  };
+  name?: {
+    firstName: string;
+    familyName: string;
+  };
+  onchainAddress?: string;
+};
+
+export type CallbackCall = {
+  to: string;
+  data?: string;
+  value?: string;
+};
+
+export type CallbackRequest = {
+  calls: CallbackCall[];
+  chainId: string;
+  version: string;
+  capabilities: {
+    dataCallback: {
+      requestedInfo: RequestedInfo;
+    };
+  };
+};
+
+export type ErrorResponse = {
+  errors: {
+    email?: string;
+    phoneNumber?: {
+      number?: string;
+      country?: string;
+    };
+    physicalAddress?: {
+      address1?: string;
+      address2?: string;
+      city?: string;
+      state?: string;
+      postalCode?: string;
+      countryCode?: string;
+    };
+    name?: {
+      firstName?: string;
+      familyName?: string;
+    };
+    onchainAddress?: string;
+    server?: string; // For server errors
+  };
+};
+
+export type SuccessResponse = {
+  calls: CallbackCall[];
+  chainId: string;
+  version: string;
+  capabilities: {
+    dataCallback: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+};
+
+export type CallbackResponse = SuccessResponse | ErrorResponse;
+
+export type InboxEntry = {
+  id: string;
+  timestamp: number;
+  session: string | null;
+  request: CallbackRequest | null;
+  response: CallbackResponse;
+  replayOf?: string; // Inbox entry this one replayed
+};
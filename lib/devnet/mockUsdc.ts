@@ -0,0 +1,23 @@
+import { getContractAddress, parseEther, type Address, type Hex } from 'viem';
+
+// Arachnid's deterministic deployment proxy. Anvil predeploys it; other nodes get it
+// from the keyless, pre-EIP-155 transaction below once its signer is funded
+export const CREATE2_DEPLOYER_ADDRESS: Address = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+export const CREATE2_DEPLOYER_SIGNER: Address = '0x3fAB184622Dc19b6109349B94811493BF2a45362';
+export const CREATE2_DEPLOYER_FUNDING = parseEther('0.01'); // 100,000 gas at 100 gwei
+export const CREATE2_DEPLOYER_TRANSACTION: Hex =
+  '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222';
+
+export const MOCK_USDC_SALT: Hex = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+// contracts/MockUSDC.sol, solc 0.8.26 with 200 optimizer runs, evmVersion paris and no metadata hash
+export const MOCK_USDC_BYTECODE: Hex =
+  '0x6080604052348015600f57600080fd5b506106348061001f6000396000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c806340c10f191161006657806340c10f191461014757806370a082311461015c57806395d89b411461017c578063a9059cbb1461019f578063dd62ed3e146101b257600080fd5b806306fdde03146100a3578063095ea7b3146100e057806318160ddd1461010357806323b872dd1461011a578063313ce5671461012d575b600080fd5b6100ca604051806040016040528060088152602001672aa9a21021b7b4b760c11b81525081565b6040516100d791906104c5565b60405180910390f35b6100f36100ee36600461052f565b6101dd565b60405190151581526020016100d7565b61010c60005481565b6040519081526020016100d7565b6100f3610128366004610559565b61024a565b610135600681565b60405160ff90911681526020016100d7565b61015a61015536600461052f565b610311565b005b61010c61016a366004610596565b60016020526000908152604090205481565b6100ca604051806040016040528060048152602001635553444360e01b81525081565b6100f36101ad36600461052f565b610399565b61010c6101c03660046105b8565b600260209081526000928352604080842090915290825290205481565b3360008181526002602090815260408083206001600160a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925906102389086815260200190565b60405180910390a35060015b92915050565b6001600160a01b038316600090815260026020908152604080832033845290915281205460001981146102fb57828110156102cc5760405162461bcd60e51b815260206004820181905260248201527f4d6f636b555344433a20696e73756666696369656e7420616c6c6f77616e636560448201526064015b60405180910390fd5b6102d68382610601565b6001600160a01b03861660009081526002602090815260408083203384529091529020555b6103068585856103af565b506001949350505050565b806000808282546103229190610614565b90915550506001600160a01b0382166000908152600160205260408120805483929061034f908490610614565b90915550506040518181526001600160a01b038316906000907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b60006103a63384846103af565b50600192915050565b6001600160a01b0383166000908152600160205260409020548111156104175760405162461bcd60e51b815260206004820152601e60248201527f4d6f636b555344433a20696e73756666696369656e742062616c616e6365000060448201526064016102c3565b6001600160a01b0383166000908152600160205260408120805483929061043f908490610601565b90915550506001600160a01b0382166000908152600160205260408120805483929061046c908490610614565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516104b891815260200190565b60405180910390a3505050565b602081526000825180602084015260005b818110156104f357602081860181015160408684010152016104d6565b506000604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b038116811461052a57600080fd5b919050565b6000806040838503121561054257600080fd5b61054b83610513565b946020939093013593505050565b60008060006060848603121561056e57600080fd5b61057784610513565b925061058560208501610513565b929592945050506040919091013590565b6000602082840312156105a857600080fd5b6105b182610513565b9392505050565b600080604083850312156105cb57600080fd5b6105d483610513565b91506105e260208401610513565b90509250929050565b634e487b7160e01b600052601160045260246000fd5b81810381811115610244576102446105eb565b80820180821115610244576102446105eb56fea164736f6c634300081a000a';
+
+// Same on every devnet, so the app knows it before the faucet has deployed it
+export const MOCK_USDC_ADDRESS = getContractAddress({
+  opcode: 'CREATE2',
+  from: CREATE2_DEPLOYER_ADDRESS,
+  salt: MOCK_USDC_SALT,
+  bytecode: MOCK_USDC_BYTECODE,
+});
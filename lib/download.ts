@@ -0,0 +1,9 @@
+// Save generated text as a file through a temporary link
+export function downloadFile(filename: string, contents: string, type = 'application/json') {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
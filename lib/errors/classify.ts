@@ -0,0 +1,194 @@
+export type ErrorCategory =
+  | 'userRejected'
+  | 'unauthorized'
+  | 'unsupportedMethod'
+  | 'disconnected'
+  | 'unsupportedChain'
+  | 'capability'
+  | 'paymaster'
+  | 'dataCallback'
+  | 'invalidParams'
+  | 'contract'
+  | 'network'
+  | 'rpc'
+  | 'unknown';
+
+export type ErrorClassification = {
+  category: ErrorCategory;
+  title: string;
+  explanation: string;
+  remediation: string;
+  code?: number; // First numeric code found along the cause chain
+  errorName?: string; // Innermost named error, e.g. a viem error class
+};
+
+type ErrorLike = {
+  code?: unknown;
+  name?: unknown;
+  message?: unknown;
+  shortMessage?: unknown;
+  details?: unknown;
+  cause?: unknown;
+};
+
+const CATEGORY_DETAILS: Record<ErrorCategory, Omit<ErrorClassification, 'category' | 'code' | 'errorName'>> = {
+  userRejected: {
+    title: 'User rejected',
+    explanation: 'The request was declined in the wallet.',
+    remediation: 'Retry and approve the request in the wallet popup.',
+  },
+  unauthorized: {
+    title: 'Unauthorized',
+    explanation: 'The wallet has not authorized this site or account for the request.',
+    remediation: 'Reconnect the wallet, or request accounts again before retrying.',
+  },
+  unsupportedMethod: {
+    title: 'Unsupported method',
+    explanation: 'The connected wallet does not implement this RPC method.',
+    remediation: 'Use a connector that supports it, e.g. Coinbase Smart Wallet for EIP-5792 methods.',
+  },
+  disconnected: {
+    title: 'Disconnected',
+    explanation: 'The wallet is not connected to any chain, or not to the requested one.',
+    remediation: 'Reconnect the wallet and check its network.',
+  },
+  unsupportedChain: {
+    title: 'Unsupported chain',
+    explanation: 'The wallet or the playground config does not support the requested chain.',
+    remediation: 'Switch to a supported chain, or add and enable it under SDK Configuration.',
+  },
+  capability: {
+    title: 'Capability error',
+    explanation: 'The wallet could not honour the EIP-5792 calls or capabilities in the request.',
+    remediation: 'Check wallet_getCapabilities for this chain and drop or mark unsupported capabilities optional.',
+  },
+  paymaster: {
+    title: 'Paymaster failure',
+    explanation: 'The paymaster service refused or failed to sponsor the calls.',
+    remediation: 'Check the paymaster settings, sponsorship policies and the Paymaster Inspector traffic.',
+  },
+  dataCallback: {
+    title: 'Data callback failure',
+    explanation: 'The data callback endpoint rejected the request or could not be reached.',
+    remediation: 'Check the callback rules and the Callback Inbox for the request the wallet sent.',
+  },
+  invalidParams: {
+    title: 'Invalid parameters',
+    explanation: 'The wallet or RPC rejected the request parameters.',
+    remediation: 'Check the addresses, amounts and encoding in the request.',
+  },
+  contract: {
+    title: 'Contract reverted',
+    explanation: 'The call reverted onchain or in simulation.',
+    remediation: 'Check balances, allowances and the calldata for the target contract.',
+  },
+  network: {
+    title: 'Network error',
+    explanation: 'An RPC or service endpoint could not be reached in time.',
+    remediation: 'Check the RPC transport settings and retry.',
+  },
+  rpc: {
+    title: 'RPC error',
+    explanation: 'The node or wallet returned a JSON-RPC error.',
+    remediation: 'Read the error message for details and retry.',
+  },
+  unknown: {
+    title: 'Error',
+    explanation: 'The error did not match a known wallet or RPC failure.',
+    remediation: 'Read the error message for details.',
+  },
+};
+
+// EIP-5792 error codes, for more specific explanations
+const CAPABILITY_EXPLANATIONS: Record<number, string> = {
+  5700: 'The wallet does not support a capability the request marked as required.',
+  5710: 'The wallet does not support calls on this chain.',
+  5720: 'A bundle with this ID was already submitted.',
+  5730: 'The wallet does not know this calls ID.',
+  5740: 'The bundle has more calls than the wallet accepts.',
+  5750: 'The user declined to upgrade their account for atomic execution.',
+  5760: 'The wallet cannot execute these calls atomically.',
+};
+
+// Outermost error first; viem and the wallet SDKs nest the original error in `cause`
+function getCauseChain(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && chain.length < 10) {
+    chain.push(current as ErrorLike);
+    current = (current as ErrorLike).cause;
+  }
+  return chain;
+}
+
+function getCategory(code: number | undefined, names: string[], text: string): ErrorCategory {
+  const hasName = (...candidates: string[]) => candidates.some((name) => names.includes(name));
+
+  if (code === 4001 || hasName('UserRejectedRequestError') || /user (rejected|denied|cancel)/.test(text)) {
+    return 'userRejected';
+  }
+  if (code === 4100 || hasName('UnauthorizedProviderError')) return 'unauthorized';
+  if (
+    code === 4200 ||
+    code === -32601 ||
+    hasName('UnsupportedProviderMethodError', 'MethodNotFoundRpcError', 'MethodNotSupportedRpcError')
+  ) {
+    return 'unsupportedMethod';
+  }
+  if (code === 4900 || code === 4901 || hasName('ProviderDisconnectedError', 'ChainDisconnectedError')) {
+    return 'disconnected';
+  }
+  if (
+    code === 4902 ||
+    code === 5710 ||
+    hasName('SwitchChainError', 'ChainNotConfiguredError', 'ChainMismatchError') ||
+    /unsupported chain|unrecognized chain|not supported on/.test(text)
+  ) {
+    return 'unsupportedChain';
+  }
+  if (code !== undefined && code >= 5700 && code < 5800) return 'capability';
+  if (/paymaster|sponsor/.test(text)) return 'paymaster';
+  if (/data callback|callbackurl/.test(text)) return 'dataCallback';
+  if (code === -32602 || hasName('InvalidParamsRpcError', 'InvalidAddressError')) return 'invalidParams';
+  if (
+    code === 3 ||
+    hasName('ContractFunctionRevertedError', 'ExecutionRevertedError', 'CallExecutionError') ||
+    /reverted/.test(text)
+  ) {
+    return 'contract';
+  }
+  if (
+    hasName('HttpRequestError', 'TimeoutError', 'WebSocketRequestError') ||
+    /failed to fetch|network error|timed out/.test(text)
+  ) {
+    return 'network';
+  }
+  if (code !== undefined && code <= -32000 && code >= -32768) return 'rpc';
+  return 'unknown';
+}
+
+/**
+ * Decode a wallet, RPC or SDK error (or the message logged for one) into a
+ * category with an explanation and a suggested fix.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const chain = typeof error === 'string' ? [{ message: error }] : getCauseChain(error);
+
+  const code = chain.map((link) => link.code).find((value): value is number => typeof value === 'number');
+  const names = chain.flatMap((link) => (typeof link.name === 'string' && link.name !== 'Error' ? [link.name] : []));
+  const text = chain
+    .flatMap((link) => [link.shortMessage, link.message, link.details])
+    .filter((value): value is string => typeof value === 'string')
+    .join('\n')
+    .toLowerCase();
+
+  const category = getCategory(code, names, text);
+  const details = CATEGORY_DETAILS[category];
+  return {
+    category,
+    ...details,
+    explanation: (code !== undefined && CAPABILITY_EXPLANATIONS[code]) || details.explanation,
+    ...(code !== undefined && { code }),
+    ...(names.length > 0 && { errorName: names[names.length - 1] }),
+  };
+}
@@ -0,0 +1,72 @@
+import type { EventLog } from '../../app/context/WagmiContextProvider';
+
+export const EVENT_LOG_TYPES: EventLog['type'][] = [
+  'connect',
+  'disconnect',
+  'accountsChanged',
+  'chainChanged',
+  'message',
+  'error',
+  'request',
+];
+
+export type EventLogFilters = {
+  types: EventLog['type'][]; // Empty matches every type
+  route: string | null;
+  search: string;
+  sinceMs: number | null; // How far back to look; null for the whole session
+};
+
+export const DEFAULT_EVENT_LOG_FILTERS: EventLogFilters = {
+  types: [],
+  route: null,
+  search: '',
+  sinceMs: null,
+};
+
+export const TIME_RANGES: { label: string; sinceMs: number | null }[] = [
+  { label: 'All time', sinceMs: null },
+  { label: 'Last minute', sinceMs: 60_000 },
+  { label: 'Last 5 minutes', sinceMs: 5 * 60_000 },
+  { label: 'Last 15 minutes', sinceMs: 15 * 60_000 },
+  { label: 'Last hour', sinceMs: 60 * 60_000 },
+];
+
+// Entries never change once logged, so their text is built once
+const searchTexts = new WeakMap<EventLog, string>();
+
+function getSearchText(log: EventLog): string {
+  let text = searchTexts.get(log);
+  if (text === undefined) {
+    let data: string;
+    try {
+      data = typeof log.data === 'string' ? log.data : JSON.stringify(log.data);
+    } catch {
+      data = String(log.data); // Circular or bigint payloads
+    }
+    text = [log.type, log.source, log.route, log.operation?.id, log.operation?.name, log.error?.title, log.tab, data]
+      .join(' ')
+      .toLowerCase();
+    searchTexts.set(log, text);
+  }
+  return text;
+}
+
+export function hasActiveFilters(filters: EventLogFilters): boolean {
+  return filters.types.length > 0 || filters.route !== null || filters.search.trim() !== '' || filters.sinceMs !== null;
+}
+
+export function filterEventLogs(logs: EventLog[], filters: EventLogFilters, now: number): EventLog[] {
+  if (!hasActiveFilters(filters)) return logs;
+
+  const search = filters.search.trim().toLowerCase();
+  const since = filters.sinceMs === null ? null : now - filters.sinceMs;
+
+  return logs.filter(
+    (log) =>
+      (filters.types.length === 0 || filters.types.includes(log.type)) &&
+      (filters.route === null || log.route === filters.route) &&
+      (since === null || log.timestamp >= since) &&
+      (!search || getSearchText(log).includes(search)),
+  );
+}
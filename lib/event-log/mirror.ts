@@ -0,0 +1,96 @@
+import type { EventLog } from '../../app/context/WagmiContextProvider';
+import { isEvent, sessionReplacer } from './session';
+
+export const MIRROR_CHANNEL_NAME = 'smart-wallet-playground:event-log';
+export const MIRROR_STORAGE_KEY = 'smart-wallet-playground:mirror-tabs';
+
+// What a tab shares about itself, so other tabs can label its entries and compare connections
+export type TabState = {
+  id: string;
+  label: string;
+  route: string | null;
+  connector: string | null;
+  chainId: number | null;
+  address: string | null;
+};
+
+export type RemoteTab = TabState & { lastSeen: number };
+
+export type MirrorMessage =
+  | { kind: 'hello'; tab: TabState } // Sent on joining; tabs already mirroring answer with 'state'
+  | { kind: 'state'; tab: TabState }
+  | { kind: 'event'; tabId: string; event: EventLog } // `event.tab` carries the sender's label
+  | { kind: 'bye'; tabId: string };
+
+export type LogMirror = {
+  post: (message: MirrorMessage) => void;
+  close: () => void;
+};
+
+export function createTabId() {
+  return Math.random().toString(36).slice(2, 6).toUpperCase();
+}
+
+const isStringOrNull = (value: unknown) => value === null || typeof value === 'string';
+
+function isTabState(value: unknown): value is TabState {
+  if (!value || typeof value !== 'object') return false;
+  const { id, label, route, connector, chainId, address } = value as Partial<TabState>;
+  return (
+    typeof id === 'string' &&
+    typeof label === 'string' &&
+    isStringOrNull(route) &&
+    isStringOrNull(connector) &&
+    (chainId === null || typeof chainId === 'number') &&
+    isStringOrNull(address)
+  );
+}
+
+// Tabs may run different builds of the playground, so anything unexpected is ignored.
+// Events get the same checks as an imported session
+function parseMirrorMessage(data: unknown): MirrorMessage | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    switch (message?.kind) {
+      case 'hello':
+      case 'state':
+        return isTabState(message.tab) ? message : null;
+      case 'event':
+        return typeof message.tabId === 'string' && isEvent(message.event) ? message : null;
+      case 'bye':
+        return typeof message.tabId === 'string' ? message : null;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Join the channel shared by every playground tab of this origin. Returns null
+ * when the browser has no BroadcastChannel.
+ */
+export function openLogMirror(onMessage: (message: MirrorMessage) => void): LogMirror | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(MIRROR_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent) => {
+    const message = parseMirrorMessage(event.data);
+    if (message) onMessage(message);
+  };
+
+  return {
+    // Sent as JSON, the same shape as an exported session, since event data may hold values that can't be cloned.
+    // Never throws into addLog: a payload that can't be serialized, or a closed channel, only drops the message
+    post: (message) => {
+      try {
+        channel.postMessage(JSON.stringify(message, sessionReplacer));
+      } catch (error) {
+        console.warn('Dropped a mirrored Event Log message:', error);
+      }
+    },
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,99 @@
+import type { EventLog } from '../../app/context/WagmiContextProvider';
+
+// From the user's click to the end of the operation; wallet requests are tagged 'requested' automatically
+export const OPERATION_STAGES = [
+  'initiated',
+  'requested',
+  'submitted',
+  'signed',
+  'confirmed',
+  'verified',
+  'failed',
+] as const;
+
+export type OperationStage = (typeof OPERATION_STAGES)[number];
+
+// An operation that has reached one of these has done what the user asked
+const SUCCESS_STAGES: OperationStage[] = ['signed', 'confirmed', 'verified'];
+
+export type OperationRef = {
+  id: string;
+  name: string; // e.g. 'Send USDC'
+};
+
+export type OperationTimelineStage = {
+  stage: OperationStage;
+  entries: EventLog[]; // Consecutive identical wallet requests (e.g. status polling) share a stage
+  startedAt: number;
+  offsetMs: number; // Since the operation started
+  durationMs: number; // Until the next stage, or the last entry of this one
+};
+
+export type OperationTimeline = OperationRef & {
+  status: 'pending' | 'succeeded' | 'failed';
+  startedAt: number;
+  durationMs: number;
+  stages: OperationTimelineStage[];
+};
+
+export function createOperationId() {
+  return `op-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getRequestMethod(log: EventLog) {
+  return log.type === 'request' ? (log.data as { method?: string }).method : undefined;
+}
+
+function toTimeline(operation: OperationRef, entries: EventLog[]): OperationTimeline {
+  const startedAt = entries[0].timestamp;
+  const endedAt = entries[entries.length - 1].timestamp;
+
+  const stages: OperationTimelineStage[] = [];
+  for (const entry of entries) {
+    const previous = stages[stages.length - 1];
+    const method = getRequestMethod(entry);
+    if (previous && method && getRequestMethod(previous.entries[0]) === method) {
+      previous.entries.push(entry);
+      continue;
+    }
+    stages.push({
+      stage: entry.operation!.stage,
+      entries: [entry],
+      startedAt: entry.timestamp,
+      offsetMs: entry.timestamp - startedAt,
+      durationMs: 0,
+    });
+  }
+  stages.forEach((stage, i) => {
+    const next = stages[i + 1];
+    stage.durationMs = (next ? next.startedAt : stage.entries[stage.entries.length - 1].timestamp) - stage.startedAt;
+  });
+
+  const finalStage = stages[stages.length - 1].stage;
+  return {
+    ...operation,
+    status: finalStage === 'failed' ? 'failed' : SUCCESS_STAGES.includes(finalStage) ? 'succeeded' : 'pending',
+    startedAt,
+    durationMs: endedAt - startedAt,
+    stages,
+  };
+}
+
+/**
+ * Group entries that carry an operation into one timeline per operation, oldest first.
+ */
+export function groupOperations(logs: EventLog[]): OperationTimeline[] {
+  const groups = new Map<string, { operation: OperationRef; entries: EventLog[] }>();
+
+  for (const log of logs) {
+    if (!log.operation) continue;
+    const group = groups.get(log.operation.id);
+    if (group) {
+      group.entries.push(log);
+    } else {
+      groups.set(log.operation.id, { operation: { id: log.operation.id, name: log.operation.name }, entries: [log] });
+    }
+  }
+
+  return [...groups.values()].map(({ operation, entries }) => toTimeline(operation, entries));
+}
@@ -0,0 +1,158 @@
+import type { EventLog } from '../../app/context/WagmiContextProvider';
+import { DEFAULT_PLAYGROUND_CONFIG, parsePlaygroundConfig, type PlaygroundConfig } from '../config/persistence';
+import { EVENT_LOG_TYPES } from './filters';
+import { OPERATION_STAGES, type OperationStage } from './operations';
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export type SessionFormat = 'json' | 'ndjson';
+
+export type SessionMetadata = {
+  version: number;
+  exportedAt: number;
+  config: PlaygroundConfig; // Applied config at export time
+  connector: { id: string; name: string } | null;
+  chainId: number | null;
+  address: string | null;
+  userAgent: string;
+};
+
+export type EventLogSession = {
+  metadata: SessionMetadata;
+  events: EventLog[];
+};
+
+// Errors and bigints have no JSON form of their own
+export function sessionReplacer(_key: string, value: unknown) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, code: (value as { code?: unknown }).code };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * JSON is a single document. NDJSON puts the metadata on the first line and
+ * one event per line after it, so a session can be grepped or streamed.
+ */
+export function serializeSession(session: EventLogSession, format: SessionFormat): string {
+  if (format === 'json') return JSON.stringify(session, sessionReplacer, 2);
+
+  return [session.metadata, ...session.events].map((line) => JSON.stringify(line, sessionReplacer)).join('\n') + '\n';
+}
+
+export function getSessionFilename(metadata: SessionMetadata, format: SessionFormat): string {
+  return `event-log-${new Date(metadata.exportedAt).toISOString().replace(/[:.]/g, '-')}.${format}`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+function isRequestTrace(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const { method, connector, durationMs, error } = value;
+  return (
+    typeof method === 'string' &&
+    typeof connector === 'string' &&
+    typeof durationMs === 'number' &&
+    (error === undefined ||
+      (isObject(error) &&
+        typeof error.message === 'string' &&
+        (error.code === undefined || typeof error.code === 'number')))
+  );
+}
+
+function isOperation(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const { id, name, stage } = value;
+  return typeof id === 'string' && typeof name === 'string' && OPERATION_STAGES.includes(stage as OperationStage);
+}
+
+function isErrorClassification(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const { category, title, explanation, remediation, code, errorName } = value;
+  return (
+    [category, title, explanation, remediation].every((field) => typeof field === 'string') &&
+    (code === undefined || typeof code === 'number') &&
+    isOptionalString(errorName)
+  );
+}
+
+/**
+ * Check an event from an imported file or another tab before it is rendered,
+ * including the shape of the fields the Event Log reads from specific types.
+ */
+export function isEvent(value: unknown): value is EventLog {
+  if (!isObject(value)) return false;
+  const { type, timestamp, data, source, route, tab, operation, error } = value;
+  return (
+    EVENT_LOG_TYPES.includes(type as EventLog['type']) &&
+    typeof timestamp === 'number' &&
+    data !== undefined &&
+    (type !== 'request' || isRequestTrace(data)) &&
+    (source === undefined || source === 'provider' || source === 'wagmi') &&
+    isOptionalString(route) &&
+    isOptionalString(tab) &&
+    (operation === undefined || isOperation(operation)) &&
+    (error === undefined || isErrorClassification(error))
+  );
+}
+
+function parseConnector(value: unknown): SessionMetadata['connector'] {
+  return isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+    ? { id: value.id, name: value.name }
+    : null;
+}
+
+function parseMetadata(value: unknown): SessionMetadata | null {
+  if (!value || typeof value !== 'object') return null;
+  const metadata = value as Partial<SessionMetadata>;
+  if (typeof metadata.version !== 'number' || typeof metadata.exportedAt !== 'number') return null;
+
+  return {
+    version: metadata.version,
+    exportedAt: metadata.exportedAt,
+    config: parsePlaygroundConfig(JSON.stringify(metadata.config ?? {})) ?? DEFAULT_PLAYGROUND_CONFIG,
+    connector: parseConnector(metadata.connector),
+    chainId: typeof metadata.chainId === 'number' ? metadata.chainId : null,
+    address: typeof metadata.address === 'string' ? metadata.address : null,
+    userAgent: typeof metadata.userAgent === 'string' ? metadata.userAgent : '',
+  };
+}
+
+/**
+ * Read a session saved in either format. Returns null when the file isn't an
+ * exported session; malformed events are dropped.
+ */
+export function parseSession(text: string): EventLogSession | null {
+  let metadata: unknown;
+  let events: unknown[];
+
+  try {
+    const document = JSON.parse(text);
+    // An NDJSON export without events is a single line, so also a valid JSON document
+    const isDocument = document && typeof document === 'object' && 'metadata' in document;
+    metadata = isDocument ? document.metadata : document;
+    events = isDocument && Array.isArray(document.events) ? document.events : [];
+  } catch {
+    // Not a single document, so try NDJSON
+    try {
+      const lines = text
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+      [metadata, ...events] = lines;
+    } catch {
+      return null;
+    }
+  }
+
+  const parsedMetadata = parseMetadata(metadata);
+  if (!parsedMetadata) return null;
+
+  return {
+    metadata: parsedMetadata,
+    // Reassigned so hand-edited or concatenated files still have unique ids
+    events: events.filter(isEvent).map((event, index) => ({ ...event, id: index })),
+  };
+}
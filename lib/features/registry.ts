@@ -12,6 +12,8 @@ import {
   TestTube,
   FileCode,
   Database,
+  Inbox,
+  ScanSearch,
 } from 'lucide-react';
 
 // Import all feature components
@@ -23,6 +25,8 @@ import { EventLog } from '../../app/components/EventLog';
 import { PersonalSign } from '../../app/components/PersonalSign';
 import { SignTypedData } from '../../app/components/SignTypedData';
 import { DataCallback } from '../../app/components/DataCallback';
+import { CallbackInbox } from '../../app/components/CallbackInbox';
+import { PaymasterInspector } from '../../app/components/PaymasterInspector';
 
 export type Feature = {
   id: string;
@@ -113,6 +117,24 @@ export const FEATURES: Feature[] = [
     component: EventLog,
     priority: 1,
   },
+  {
+    id: 'callback-inbox',
+    title: 'Callback Inbox',
+    route: '/debug/callback-inbox',
+    icon: Inbox,
+    category: 'debugging',
+    component: CallbackInbox,
+    priority: 2,
+  },
+  {
+    id: 'paymaster-inspector',
+    title: 'Paymaster Inspector',
+    route: '/debug/paymaster',
+    icon: ScanSearch,
+    category: 'debugging',
+    component: PaymasterInspector,
+    priority: 3,
+  },
 ];
 
 export const getFeatureByRoute = (route: string): Feature | undefined => {
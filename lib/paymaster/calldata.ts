@@ -0,0 +1,62 @@
+import { decodeFunctionData, erc20Abi, erc721Abi, parseAbi, slice, type Abi, type Address, type Hex } from 'viem';
+
+// Coinbase Smart Wallet entry points for user operation callData
+export const SMART_WALLET_ABI = parseAbi([
+  'function execute(address target, uint256 value, bytes data)',
+  'function executeBatch((address target, uint256 value, bytes data)[] calls)',
+]);
+
+// Tried in order when naming the inner calls of a user operation
+const KNOWN_CALL_ABIS: Abi[] = [erc20Abi, erc721Abi];
+
+export type DecodedCall = {
+  target: Address;
+  value: bigint;
+  data: Hex;
+  selector: Hex | null; // null for plain value transfers
+};
+
+function toDecodedCall(target: Address, value: bigint, data: Hex): DecodedCall {
+  return { target, value, data, selector: data.length >= 10 ? slice(data, 0, 4) : null };
+}
+
+/**
+ * Decode the calls wrapped in a smart wallet user operation's callData.
+ * Returns null when the callData isn't an execute/executeBatch call.
+ */
+export function decodeUserOperationCalls(callData: Hex | undefined): DecodedCall[] | null {
+  if (!callData || callData === '0x') return [];
+
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: SMART_WALLET_ABI, data: callData });
+
+    if (functionName === 'execute') {
+      const [target, value, data] = args;
+      return [toDecodedCall(target, value, data)];
+    }
+
+    return args[0].map((call) => toDecodedCall(call.target, call.value, call.data));
+  } catch {
+    return null;
+  }
+}
+
+export type DescribedFunction = {
+  functionName: string;
+  args: string[];
+};
+
+// Best-effort name and stringified args for an inner call, null when no known ABI matches
+export function describeCallData(data: Hex): DescribedFunction | null {
+  if (data.length < 10) return null;
+
+  for (const abi of KNOWN_CALL_ABIS) {
+    try {
+      const { functionName, args = [] } = decodeFunctionData({ abi, data });
+      return { functionName, args: args.map((arg) => String(arg)) };
+    } catch {
+      // Try the next ABI
+    }
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+export type PaymasterMode = 'upstream' | 'mock';
+
+export type MockFailureMode = 'none' | 'reject' | 'timeout' | 'malformed';
+
+export const MOCK_FAILURE_MODES: MockFailureMode[] = ['none', 'reject', 'timeout', 'malformed'];
+
+export type AllowedTarget = {
+  address: string;
+  selectors: string[]; // Empty allows any function on the target
+};
+
+export type SponsorshipPolicy = {
+  enabled: boolean;
+  allowedTargets: AllowedTarget[]; // Empty allows any target
+  dailySpendCap: string; // Sponsored gas cost in ETH per sender per UTC day, empty for no cap
+  maxGasLimit: string; // Total gas across the user operation, empty for no limit
+  allowedChainIds: number[]; // Empty allows any chain
+};
+
+export const DEFAULT_SPONSORSHIP_POLICY: SponsorshipPolicy = {
+  enabled: false,
+  allowedTargets: [],
+  dailySpendCap: '',
+  maxGasLimit: '',
+  allowedChainIds: [],
+};
+
+export type PaymasterChain = {
+  chainId: number;
+  name: string;
+  url: string; // Runtime endpoint; empty falls back to envVar
+  envVar?: string; // Server env var holding the default endpoint, never sent to the browser by value
+};
+
+export type PaymasterSettings = {
+  mode: PaymasterMode;
+  mockFailure: MockFailureMode;
+  mockTimeoutMs: number;
+  policy: SponsorshipPolicy;
+  chains: PaymasterChain[]; // Chains the proxy will sponsor on
+};
+
+export type EntryPointVersion = '0.6' | '0.7';
+
+export type InspectedCall = {
+  target: string;
+  value: string; // wei
+  selector: string | null;
+  functionName: string | null; // null when no known ABI matches
+  args: string[] | null;
+};
+
+export type InspectedUserOperation = {
+  sender: string | null;
+  nonce: string | null;
+  calls: InspectedCall[] | null; // null when callData isn't an execute/executeBatch call
+  gasLimits: Record<string, string>; // Only the gas fields present on the operation, in decimal
+};
+
+export type PaymasterTrafficEntry = {
+  id: string;
+  timestamp: number;
+  method: string;
+  sponsor: string;
+  mode: PaymasterMode;
+  chainId: string | null;
+  entryPointVersion: EntryPointVersion | null;
+  userOperation: InspectedUserOperation | null;
+  upstreamLatencyMs: number | null; // null when the request never reached the paymaster
+  paymasterAndData: string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+};
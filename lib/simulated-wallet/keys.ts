@@ -0,0 +1,23 @@
+import type { Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+// Never part of the shared config: the key only lives in this browser
+export const SIMULATED_WALLET_KEY_STORAGE_KEY = 'smart-wallet-playground:simulated-wallet-key';
+
+export function loadSimulatedWalletKey(): Hex {
+  const stored = localStorage.getItem(SIMULATED_WALLET_KEY_STORAGE_KEY);
+  if (stored && /^0x[0-9a-fA-F]{64}$/.test(stored)) return stored as Hex;
+
+  const privateKey = generatePrivateKey();
+  localStorage.setItem(SIMULATED_WALLET_KEY_STORAGE_KEY, privateKey);
+  return privateKey;
+}
+
+export function resetSimulatedWalletKey(): Hex {
+  localStorage.removeItem(SIMULATED_WALLET_KEY_STORAGE_KEY);
+  return loadSimulatedWalletKey();
+}
+
+export function getSimulatedWalletAccount() {
+  return privateKeyToAccount(loadSimulatedWalletKey());
+}
@@ -0,0 +1,37 @@
+import type { RequestedInfo } from '../data-callback/types';
+
+export type DataCallbackRequest = {
+  type: keyof RequestedInfo;
+  optional?: boolean;
+};
+
+// What the simulated user "shares" when a dapp asks for profile data
+export const SIMULATED_PROFILE: Omit<Required<RequestedInfo>, 'onchainAddress'> = {
+  email: 'simulated@playground.dev',
+  phoneNumber: { number: '2125550123', country: 'US', isPrimary: true },
+  physicalAddress: {
+    physicalAddress: {
+      address1: '1 Simulated Way',
+      city: 'New York',
+      state: 'NY',
+      postalCode: '10001',
+      countryCode: 'US',
+      name: { firstName: 'Sim', familyName: 'Ulated' },
+    },
+    isPrimary: true,
+  },
+  name: { firstName: 'Sim', familyName: 'Ulated' },
+};
+
+// Optional requests are answered too, like a user who shares everything asked for
+export function collectRequestedInfo(requests: DataCallbackRequest[], address: string): RequestedInfo {
+  const info: RequestedInfo = {};
+  for (const { type } of requests) {
+    if (type === 'onchainAddress') {
+      info.onchainAddress = address;
+    } else if (type in SIMULATED_PROFILE) {
+      Object.assign(info, { [type]: SIMULATED_PROFILE[type] });
+    }
+  }
+  return info;
+}
@@ -0,0 +1,320 @@
+import {
+  RpcError,
+  SwitchChainError,
+  UnsupportedProviderMethodError,
+  concat,
+  encodeFunctionData,
+  hexToNumber,
+  http,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  type Address,
+  type Chain,
+  type EIP1193Provider,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem';
+import { entryPoint06Address } from 'viem/account-abstraction';
+import { SMART_WALLET_ABI } from '../paymaster/calldata';
+import type { CallbackRequest, SuccessResponse } from '../data-callback/types';
+import { getSimulatedWalletAccount } from './keys';
+import { collectRequestedInfo, type DataCallbackRequest } from './profile';
+
+// How long a bundle reports as pending before it "confirms"
+const CONFIRMATION_DELAY_MS = 1500;
+
+type SendCallsCall = {
+  to: Address;
+  data?: Hex;
+  value?: Hex;
+};
+
+type PaymasterServiceCapability = { url: string; context?: unknown };
+
+type SendCallsParams = {
+  version?: string;
+  chainId?: Hex;
+  from?: Address;
+  calls: SendCallsCall[];
+  capabilities?: {
+    paymasterService?: PaymasterServiceCapability;
+    dataCallback?: { requests: DataCallbackRequest[]; callbackURL?: string };
+    [key: string]: unknown;
+  };
+};
+
+type CallsBundle = {
+  id: Hex;
+  chainId: number;
+  calls: SendCallsCall[];
+  sentAt: number;
+  capabilities: Record<string, unknown>; // Echoed back by wallet_getCallsStatus
+};
+
+type Listener = (...args: unknown[]) => void;
+
+function unsupported(method: string) {
+  return new UnsupportedProviderMethodError(new Error(`Simulated wallet does not support ${method}`), { method });
+}
+
+// Bodies of any status are returned, since services report errors in them; callers check `ok`
+async function postJson(url: string, body: unknown): Promise<{ ok: boolean; status: number; body: unknown }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { ok: response.ok, status: response.status, body: await response.json().catch(() => null) };
+}
+
+// ERC-7677 call against the dapp's paymaster service, surfacing JSON-RPC errors with their code
+async function callPaymaster(url: string, method: string, params: unknown[]) {
+  const { ok, status, body } = await postJson(url, { jsonrpc: '2.0', id: 1, method, params });
+  const { result, error } = (body ?? {}) as {
+    result?: Record<string, unknown>;
+    error?: { code: number; message: string };
+  };
+  if (error) {
+    throw new RpcError(new Error(error.message), { code: error.code, shortMessage: error.message });
+  }
+  if (!ok || !result) {
+    throw new RpcError(new Error(`Paymaster service returned HTTP ${status} without a result`), {
+      code: -32603,
+      shortMessage: 'Invalid paymaster response',
+    });
+  }
+  return result;
+}
+
+function isCallbackSuccess(response: unknown): response is SuccessResponse {
+  if (!response || typeof response !== 'object') return false;
+  const { calls, capabilities } = response as Partial<SuccessResponse>;
+  return (
+    Array.isArray(calls) &&
+    calls.every((call) => call && typeof call === 'object' && typeof call.to === 'string') &&
+    !!capabilities &&
+    typeof capabilities === 'object' &&
+    !!capabilities.dataCallback &&
+    typeof capabilities.dataCallback === 'object'
+  );
+}
+
+/**
+ * In-browser EIP-1193 provider backed by a local key. Implements the wallet
+ * methods the playground exercises, runs paymasterService and dataCallback
+ * capabilities against the configured endpoints and never broadcasts anything,
+ * so every feature page works offline. Other methods go to the chain's RPC.
+ */
+export function createSimulatedWalletProvider(chains: readonly Chain[]): EIP1193Provider {
+  const listeners = new Map<string, Set<Listener>>();
+  const bundles = new Map<Hex, CallsBundle>();
+  let chainId = chains[0].id;
+
+  const emit = (event: string, ...args: unknown[]) => listeners.get(event)?.forEach((listener) => listener(...args));
+
+  const getChain = (id: number) => chains.find((chain) => chain.id === id);
+
+  async function applyDataCallback(
+    params: SendCallsParams,
+    capability: NonNullable<SendCallsParams['capabilities']>['dataCallback'],
+    address: Address,
+  ): Promise<{ calls: SendCallsCall[]; capabilities: Record<string, unknown> }> {
+    if (!capability) return { calls: params.calls, capabilities: {} };
+
+    const requestedInfo = collectRequestedInfo(capability.requests ?? [], address);
+    if (!capability.callbackURL) {
+      return { calls: params.calls, capabilities: { dataCallback: { requestedInfo } } };
+    }
+
+    const request: CallbackRequest = {
+      calls: params.calls,
+      chainId: numberToHex(chainId),
+      version: params.version ?? '1.0',
+      capabilities: { dataCallback: { requestedInfo } },
+    };
+    const { ok, status, body: response } = await postJson(capability.callbackURL, request);
+
+    // A real wallet shows these to the user; here they reject the request
+    if (response && typeof response === 'object' && 'errors' in response) {
+      throw new RpcError(new Error(`Data callback rejected the request: ${JSON.stringify(response.errors)}`), {
+        code: -32000,
+        shortMessage: 'Data callback rejected the request',
+      });
+    }
+
+    if (!ok || !isCallbackSuccess(response)) {
+      throw new RpcError(
+        new Error(
+          `Data callback returned ${ok ? 'a malformed response' : `HTTP ${status}`}: ${JSON.stringify(response)}`,
+        ),
+        { code: -32000, shortMessage: 'Data callback returned an invalid response' },
+      );
+    }
+
+    return {
+      calls: response.calls as SendCallsCall[],
+      capabilities: {
+        ...response.capabilities,
+        dataCallback: { requestedInfo, ...response.capabilities.dataCallback },
+      },
+    };
+  }
+
+  async function sendCalls(params: SendCallsParams): Promise<{ id: Hex }> {
+    const account = getSimulatedWalletAccount();
+    if (params.from && !isAddressEqual(params.from, account.address)) {
+      throw new RpcError(new Error(`Unknown account ${params.from}`), { code: 4100, shortMessage: 'Unknown account' });
+    }
+    if (params.chainId && hexToNumber(params.chainId) !== chainId) {
+      throw new RpcError(new Error(`Wallet is on chain ${chainId}, not ${hexToNumber(params.chainId)}`), {
+        code: -32602,
+        shortMessage: 'Chain mismatch',
+      });
+    }
+
+    // The callback may rewrite calls and capabilities (e.g. point at a paymaster), so it runs first
+    const { calls, capabilities } = await applyDataCallback(params, params.capabilities?.dataCallback, account.address);
+    const paymasterService =
+      (capabilities.paymasterService as PaymasterServiceCapability | undefined) ??
+      params.capabilities?.paymasterService;
+
+    const nonce = numberToHex(bundles.size);
+    const userOperation = {
+      sender: account.address,
+      nonce,
+      initCode: '0x',
+      callData: encodeFunctionData({
+        abi: SMART_WALLET_ABI,
+        functionName: 'executeBatch',
+        args: [calls.map((call) => ({ target: call.to, value: BigInt(call.value ?? '0x0'), data: call.data ?? '0x' }))],
+      }),
+      callGasLimit: numberToHex(100_000),
+      verificationGasLimit: numberToHex(200_000),
+      preVerificationGas: numberToHex(50_000),
+      maxFeePerGas: '0x0',
+      maxPriorityFeePerGas: '0x0',
+      paymasterAndData: '0x',
+      signature: '0x',
+    };
+
+    // Same stub-then-final sequence as a real smart wallet
+    let sponsorship: Record<string, unknown> | undefined;
+    if (paymasterService?.url) {
+      const paymasterParams = [userOperation, entryPoint06Address, numberToHex(chainId), paymasterService.context];
+      const stub = await callPaymaster(paymasterService.url, 'pm_getPaymasterStubData', paymasterParams);
+      sponsorship = await callPaymaster(paymasterService.url, 'pm_getPaymasterData', [
+        { ...userOperation, paymasterAndData: stub.paymasterAndData ?? '0x' },
+        ...paymasterParams.slice(1),
+      ]);
+    }
+
+    const id = keccak256(concat([account.address, nonce, numberToHex(chainId), numberToHex(Date.now())]));
+    bundles.set(id, {
+      id,
+      chainId,
+      calls,
+      sentAt: Date.now(),
+      capabilities: { ...capabilities, ...(sponsorship && { paymasterService: sponsorship }) },
+    });
+    return { id };
+  }
+
+  function getCallsStatus(id: Hex) {
+    const bundle = bundles.get(id);
+    if (!bundle) {
+      throw new RpcError(new Error(`Unknown bundle ${id}`), { code: 5730, shortMessage: 'Unknown bundle id' });
+    }
+
+    const confirmed = Date.now() - bundle.sentAt >= CONFIRMATION_DELAY_MS;
+    return {
+      version: '2.0.0',
+      id,
+      chainId: numberToHex(bundle.chainId),
+      atomic: true,
+      status: confirmed ? 200 : 100,
+      receipts: confirmed
+        ? [
+            {
+              logs: [],
+              status: '0x1',
+              blockHash: keccak256(concat([id, '0x00'])),
+              blockNumber: numberToHex(Math.floor(bundle.sentAt / 1000)),
+              gasUsed: '0x0',
+              transactionHash: keccak256(concat([id, '0x01'])),
+            },
+          ]
+        : undefined,
+      capabilities: bundle.capabilities,
+    };
+  }
+
+  function getCapabilities(chainIds?: Hex[]) {
+    const ids = chainIds ?? chains.map((chain) => numberToHex(chain.id));
+    return Object.fromEntries(
+      ids.map((id) => [
+        id,
+        {
+          atomic: { status: 'supported' },
+          atomicBatch: { supported: true },
+          paymasterService: { supported: true },
+          dataCallback: { supported: true },
+        },
+      ]),
+    );
+  }
+
+  async function request({ method, params }: { method: string; params?: unknown }): Promise<unknown> {
+    const args = (params ?? []) as unknown[];
+
+    switch (method) {
+      case 'eth_requestAccounts':
+      case 'eth_accounts':
+        return [getSimulatedWalletAccount().address];
+      case 'eth_chainId':
+        return numberToHex(chainId);
+      case 'personal_sign':
+        return getSimulatedWalletAccount().signMessage({ message: { raw: args[0] as Hex } });
+      case 'eth_signTypedData_v4': {
+        const typedData = (typeof args[1] === 'string' ? JSON.parse(args[1]) : args[1]) as TypedDataDefinition;
+        return getSimulatedWalletAccount().signTypedData(typedData);
+      }
+      case 'wallet_sendCalls':
+        return sendCalls(args[0] as SendCallsParams);
+      case 'wallet_getCallsStatus':
+        return getCallsStatus(args[0] as Hex);
+      case 'wallet_getCapabilities':
+        return getCapabilities(args[1] as Hex[] | undefined);
+      case 'wallet_switchEthereumChain': {
+        const targetId = hexToNumber((args[0] as { chainId: Hex }).chainId);
+        if (!getChain(targetId)) throw new SwitchChainError(new Error(`Chain ${targetId} is not configured`));
+        if (targetId !== chainId) {
+          chainId = targetId;
+          emit('chainChanged', numberToHex(chainId));
+        }
+        return null;
+      }
+      case 'wallet_revokePermissions':
+        emit('disconnect');
+        return null;
+      default: {
+        if (method.startsWith('wallet_') || method === 'eth_sendTransaction') throw unsupported(method);
+
+        // Reads go to the current chain's public RPC
+        const chain = getChain(chainId)!;
+        return http(chain.rpcUrls.default.http[0])({ chain }).request({ method, params } as never);
+      }
+    }
+  }
+
+  return {
+    request,
+    on: (event: string, listener: Listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener: (event: string, listener: Listener) => {
+      listeners.get(event)?.delete(listener);
+    },
+  } as unknown as EIP1193Provider;
+}